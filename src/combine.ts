@@ -0,0 +1,250 @@
+/**
+ * How a combined iterator draws from its inputs.
+ *
+ * - `zip`: one value from every input per step, as a tuple, until any input is done.
+ * - `zipLongest`: like zip, until every input is done, with `fill` standing in for inputs that are.
+ * - `concat`: every value of each input in turn.
+ * - `interleave`: one value from each input in turn, until any input is done.
+ * - `roundRobin`: one value from each input in turn, skipping inputs that are done, until all are.
+ */
+export type CombineMode = 'zip' | 'zipLongest' | 'concat' | 'interleave' | 'roundRobin';
+
+/**
+ * The element type of an iterator or iterable. Iterators are read through next(), so pipelines report the type they emit.
+ */
+export type ElementOf<T> =
+    T extends { next(...args: any[]): IteratorResult<infer E, any> } ? E :
+    T extends Iterable<infer E> ? E :
+    never;
+
+/**
+ * The element type of a sync or async iterator or iterable.
+ */
+export type AsyncElementOf<T> =
+    T extends { next(...args: any[]): Promise<IteratorResult<infer E, any>> | IteratorResult<infer E, any> } ? E :
+    T extends AsyncIterable<infer E> ? E :
+    T extends Iterable<infer E> ? E :
+    never;
+
+/**
+ * Throws unless every input is an iterator or iterable (sync or async when `allowAsync` is set).
+ *
+ * @throws Error If an input is not an iterator or iterable.
+ */
+export function assertCombinable(method: string, inputs: unknown[], allowAsync: boolean) {
+    for (const input of inputs) {
+        const candidate = input as any;
+        const valid = typeof candidate === 'object' && candidate !== null && (
+            typeof candidate.next === 'function' ||
+            typeof candidate[Symbol.iterator] === 'function' ||
+            (allowAsync && typeof candidate[Symbol.asyncIterator] === 'function')
+        );
+        if (!valid) throw new Error(`${method}: every input must be an ${allowAsync ? 'iterator, async iterator, iterable or async iterable' : 'iterator or iterable'}`);
+    }
+}
+
+/**
+ * Returns an iterable whose iterators combine the given inputs. Each pass opens the inputs again,
+ * so re-iterable inputs can be combined more than once.
+ */
+export function combineIterables(mode: CombineMode, inputs: (Iterator<any> | Iterable<any>)[], fill?: unknown): Iterable<any> {
+    return { [Symbol.iterator]: () => new CombinedIterator(mode, inputs, fill) };
+}
+
+/**
+ * Returns an async iterable whose iterators combine the given sync or async inputs. Each pass opens the inputs again,
+ * so re-iterable inputs can be combined more than once.
+ */
+export function combineAsyncIterables(mode: CombineMode, inputs: unknown[], fill?: unknown): AsyncIterable<any> {
+    return { [Symbol.asyncIterator]: () => new AsyncCombinedIterator(mode, inputs, fill) };
+}
+
+/**
+ * Combines several iterators into one, according to the mode. Once the combined iterator finishes or is closed
+ * early, every input that is not done yet is closed with return().
+ */
+class CombinedIterator implements IterableIterator<any> {
+    private mode: CombineMode;
+    private iterators: Iterator<any>[];
+    private done: boolean[];
+    private fill: unknown;
+    /**
+     * The input concat, interleave and roundRobin pull from next.
+     */
+    private position: number;
+    private finished: boolean;
+
+    constructor(mode: CombineMode, inputs: (Iterator<any> | Iterable<any>)[], fill: unknown) {
+        this.mode = mode;
+        this.iterators = inputs.map(input => typeof (input as Iterator<any>).next === 'function'
+            ? input as Iterator<any>
+            : (input as Iterable<any>)[Symbol.iterator]());
+        this.done = inputs.map(() => false);
+        this.fill = fill;
+        this.position = 0;
+        this.finished = false;
+    }
+
+    [Symbol.iterator]() {
+        return this;
+    }
+
+    next(): IteratorResult<any> {
+        if (this.finished) return { done: true, value: undefined };
+        const count = this.iterators.length;
+
+        switch (this.mode) {
+            case 'zip':
+            case 'zipLongest': {
+                if (count === 0) return this.return();
+                const values: any[] = [];
+                let produced = false;
+                for (let i = 0; i < count; i++) {
+                    const result = this.done[i] ? undefined : this.pullFrom(i);
+                    if (result && !result.done) {
+                        values.push(result.value);
+                        produced = true;
+                    } else if (this.mode === 'zip') {
+                        return this.return();
+                    } else {
+                        values.push(this.fill);
+                    }
+                }
+                return produced ? { done: false, value: values } : this.return();
+            }
+            case 'concat':
+                while (this.position < count) {
+                    const result = this.pullFrom(this.position);
+                    if (!result.done) return result;
+                    this.position++;
+                }
+                return this.return();
+            case 'interleave': {
+                if (count === 0) return this.return();
+                const result = this.pullFrom(this.position);
+                if (result.done) return this.return();
+                this.position = (this.position + 1) % count;
+                return result;
+            }
+            case 'roundRobin':
+                for (let tries = 0; tries < count; tries++) {
+                    const i = this.position;
+                    this.position = (this.position + 1) % count;
+                    if (this.done[i]) continue;
+                    const result = this.pullFrom(i);
+                    if (!result.done) return result;
+                }
+                return this.return();
+        }
+    }
+
+    private pullFrom(i: number): IteratorResult<any> {
+        const result = this.iterators[i].next();
+        if (result.done) this.done[i] = true;
+        return result;
+    }
+
+    /**
+     * Finishes the combined iterator and closes every input that is not done yet.
+     */
+    return(value?: any): IteratorResult<any> {
+        if (!this.finished) {
+            this.finished = true;
+            this.iterators.forEach((iterator, i) => {
+                if (!this.done[i]) iterator.return?.();
+            });
+        }
+        return { done: true, value };
+    }
+}
+
+/**
+ * Combines several sync or async iterators into one async iterator, according to the mode. zip and zipLongest pull
+ * from their inputs at the same time. Once the combined iterator finishes or is closed early, every input that is
+ * not done yet is closed with return().
+ */
+class AsyncCombinedIterator implements AsyncIterableIterator<any> {
+    private mode: CombineMode;
+    private iterators: (Iterator<any> | AsyncIterator<any>)[];
+    private done: boolean[];
+    private fill: unknown;
+    /**
+     * The input concat, interleave and roundRobin pull from next.
+     */
+    private position: number;
+    private finished: boolean;
+
+    constructor(mode: CombineMode, inputs: unknown[], fill: unknown) {
+        this.mode = mode;
+        this.iterators = inputs.map(input => {
+            const source = input as any;
+            if (typeof source.next === 'function') return source;
+            if (typeof source[Symbol.asyncIterator] === 'function') return source[Symbol.asyncIterator]();
+            return source[Symbol.iterator]();
+        });
+        this.done = inputs.map(() => false);
+        this.fill = fill;
+        this.position = 0;
+        this.finished = false;
+    }
+
+    [Symbol.asyncIterator]() {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<any>> {
+        if (this.finished) return { done: true, value: undefined };
+        const count = this.iterators.length;
+
+        switch (this.mode) {
+            case 'zip':
+            case 'zipLongest': {
+                if (count === 0) return this.return();
+                const results = await Promise.all(this.iterators.map((_, i) => this.done[i] ? undefined : this.pullFrom(i)));
+                if (this.mode === 'zip' && results.some(result => !result || result.done)) return this.return();
+                if (results.every(result => !result || result.done)) return this.return();
+                return { done: false, value: results.map(result => result && !result.done ? result.value : this.fill) };
+            }
+            case 'concat':
+                while (this.position < count) {
+                    const result = await this.pullFrom(this.position);
+                    if (!result.done) return result;
+                    this.position++;
+                }
+                return this.return();
+            case 'interleave': {
+                if (count === 0) return this.return();
+                const result = await this.pullFrom(this.position);
+                if (result.done) return this.return();
+                this.position = (this.position + 1) % count;
+                return result;
+            }
+            case 'roundRobin':
+                for (let tries = 0; tries < count; tries++) {
+                    const i = this.position;
+                    this.position = (this.position + 1) % count;
+                    if (this.done[i]) continue;
+                    const result = await this.pullFrom(i);
+                    if (!result.done) return result;
+                }
+                return this.return();
+        }
+    }
+
+    private async pullFrom(i: number): Promise<IteratorResult<any>> {
+        const result = await this.iterators[i].next();
+        if (result.done) this.done[i] = true;
+        return result;
+    }
+
+    /**
+     * Finishes the combined iterator and closes every input that is not done yet.
+     */
+    async return(value?: any): Promise<IteratorResult<any>> {
+        if (!this.finished) {
+            this.finished = true;
+            await Promise.all(this.iterators.map((iterator, i) => this.done[i] ? undefined : iterator.return?.()));
+        }
+        return { done: true, value };
+    }
+}
@@ -0,0 +1,197 @@
+import { asyncPuller, naturalOrder, syncPuller } from './sorted';
+
+/**
+ * One entry of a diff between two keyed datasets. `before` is missing for added keys and `after` for removed ones.
+ */
+export type DiffRecord<T, K> =
+    { type: 'added', key: K, before: undefined, after: T } |
+    { type: 'removed', key: K, before: T, after: undefined } |
+    { type: 'changed' | 'unchanged', key: K, before: T, after: T };
+
+/**
+ * Options for diffBy.
+ *
+ * `equals` decides whether two values with the same key are unchanged; it defaults to deepEqual. By default both inputs
+ * must be sorted by key in the order given by `compare` (which defaults to `<` and `>`), and are diffed in one pass.
+ * With `sorted: false` the inputs may be in any order: the smaller one is indexed by key, and records come out in the
+ * order of the larger one, followed by the keys it lacks.
+ */
+export type DiffOptions<T, K> = {
+    equals?: (before: T, after: T) => boolean,
+    compare?: (a: K, b: K) => number,
+    sorted?: boolean
+};
+
+type ResolvedDiffOptions = {
+    key: (x: any) => any,
+    equals: (before: any, after: any) => boolean,
+    compare: (a: any, b: any) => number,
+    sorted: boolean
+};
+
+/**
+ * Compares primitives with Object.is, and arrays, plain objects and dates by their contents. Other objects are only
+ * equal to themselves.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    const prototype = Object.getPrototypeOf(a);
+    if (prototype !== Object.getPrototypeOf(b)) return false;
+    if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+    if (prototype !== Object.prototype && prototype !== Array.prototype && prototype !== null) return false;
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every(k => Object.prototype.hasOwnProperty.call(b, k) && deepEqual((a as any)[k], (b as any)[k]));
+}
+
+/**
+ * Validates diffBy options and fills in their defaults.
+ *
+ * @throws TypeError If keyFn, equals or compare is not a function.
+ */
+export function resolveDiffOptions(method: string, key: (x: any) => any, options: DiffOptions<any, any>): ResolvedDiffOptions {
+    const { equals = deepEqual, compare = naturalOrder, sorted = true } = options ?? {};
+    if (typeof key !== 'function')
+        throw new TypeError(`${method}: keyFn must be a function`);
+    if (typeof equals !== 'function')
+        throw new TypeError(`${method}: equals must be a function`);
+    if (typeof compare !== 'function')
+        throw new TypeError(`${method}: compare must be a function`);
+    return { key, equals, compare, sorted: sorted !== false };
+}
+
+/**
+ * The record for a key found on both sides, or on only one of them.
+ */
+function diffRecord(options: ResolvedDiffOptions, key: any, before: { value: any } | undefined, after: { value: any } | undefined): DiffRecord<any, any> {
+    if (!before) return { type: 'added', key, before: undefined, after: after!.value };
+    if (!after) return { type: 'removed', key, before: before.value, after: undefined };
+    return { type: options.equals(before.value, after.value) ? 'unchanged' : 'changed', key, before: before.value, after: after.value };
+}
+
+/**
+ * Returns an iterable whose iterators diff two keyed inputs, `before` and `after`.
+ *
+ * Sorted inputs are walked together in key order and only one value per side is held at a time. Unsorted inputs are
+ * pulled in step until one of them ends; that one is no larger than the other, so it is the one indexed by key, and the
+ * rest of the other is then streamed against the index.
+ */
+export function diffIterables(method: string, before: unknown, after: unknown, options: ResolvedDiffOptions): Iterable<DiffRecord<any, any>> {
+    const { key, compare, sorted } = options;
+    return {
+        *[Symbol.iterator]() {
+            const pullers = [
+                syncPuller(method, before, 0, sorted ? compare : undefined, key),
+                syncPuller(method, after, 1, sorted ? compare : undefined, key)
+            ];
+            try {
+                if (sorted) {
+                    let b = pullers[0].next();
+                    let a = pullers[1].next();
+                    while (!b.done || !a.done) {
+                        const order = b.done ? 1 : a.done ? -1 : compare(key(b.value), key(a.value));
+                        if (order < 0) {
+                            yield diffRecord(options, key(b.value), b, undefined);
+                            b = pullers[0].next();
+                        } else if (order > 0) {
+                            yield diffRecord(options, key(a.value), undefined, a);
+                            a = pullers[1].next();
+                        } else {
+                            yield diffRecord(options, key(b.value), b, a);
+                            b = pullers[0].next();
+                            a = pullers[1].next();
+                        }
+                    }
+                    return;
+                }
+
+                const pulled: any[][] = [[], []];
+                let indexed = -1;
+                while (indexed < 0) {
+                    for (let side = 0; side < 2 && indexed < 0; side++) {
+                        const result = pullers[side].next();
+                        if (result.done) indexed = side;
+                        else pulled[side].push(result.value);
+                    }
+                }
+                const streamed = 1 - indexed;
+                const index = new Map(pulled[indexed].map(value => [key(value), value]));
+                pulled[indexed] = [];
+                const match = (value: any) => {
+                    const k = key(value);
+                    const found = index.has(k) ? { value: index.get(k) } : undefined;
+                    index.delete(k);
+                    return streamed === 0 ? diffRecord(options, k, { value }, found) : diffRecord(options, k, found, { value });
+                };
+                for (const value of pulled[streamed].splice(0)) yield match(value);
+                for (let result = pullers[streamed].next(); !result.done; result = pullers[streamed].next()) yield match(result.value);
+                for (const [k, value] of index) {
+                    yield indexed === 0 ? diffRecord(options, k, { value }, undefined) : diffRecord(options, k, undefined, { value });
+                }
+            } finally {
+                pullers.forEach(puller => puller.close());
+            }
+        }
+    };
+}
+
+/**
+ * Like diffIterables, for sync or async inputs. Unsorted inputs are pulled from at the same time.
+ */
+export function diffAsyncIterables(method: string, before: unknown, after: unknown, options: ResolvedDiffOptions): AsyncIterable<DiffRecord<any, any>> {
+    const { key, compare, sorted } = options;
+    return {
+        async *[Symbol.asyncIterator]() {
+            const pullers = [
+                asyncPuller(method, before, 0, sorted ? compare : undefined, key),
+                asyncPuller(method, after, 1, sorted ? compare : undefined, key)
+            ];
+            try {
+                if (sorted) {
+                    let [b, a] = await Promise.all([pullers[0].next(), pullers[1].next()]);
+                    while (!b.done || !a.done) {
+                        const order = b.done ? 1 : a.done ? -1 : compare(key(b.value), key(a.value));
+                        if (order < 0) {
+                            yield diffRecord(options, key(b.value), b, undefined);
+                            b = await pullers[0].next();
+                        } else if (order > 0) {
+                            yield diffRecord(options, key(a.value), undefined, a);
+                            a = await pullers[1].next();
+                        } else {
+                            yield diffRecord(options, key(b.value), b, a);
+                            [b, a] = await Promise.all([pullers[0].next(), pullers[1].next()]);
+                        }
+                    }
+                    return;
+                }
+
+                const pulled: any[][] = [[], []];
+                let indexed = -1;
+                while (indexed < 0) {
+                    const results = await Promise.all([pullers[0].next(), pullers[1].next()]);
+                    results.forEach((result, side) => {
+                        if (!result.done) pulled[side].push(result.value);
+                        else if (indexed < 0) indexed = side;
+                    });
+                }
+                const streamed = 1 - indexed;
+                const index = new Map(pulled[indexed].map(value => [key(value), value]));
+                pulled[indexed] = [];
+                const match = (value: any) => {
+                    const k = key(value);
+                    const found = index.has(k) ? { value: index.get(k) } : undefined;
+                    index.delete(k);
+                    return streamed === 0 ? diffRecord(options, k, { value }, found) : diffRecord(options, k, found, { value });
+                };
+                for (const value of pulled[streamed].splice(0)) yield match(value);
+                for (let result = await pullers[streamed].next(); !result.done; result = await pullers[streamed].next()) yield match(result.value);
+                for (const [k, value] of index) {
+                    yield indexed === 0 ? diffRecord(options, k, { value }, undefined) : diffRecord(options, k, undefined, { value });
+                }
+            } finally {
+                await Promise.all(pullers.map(puller => puller.close()));
+            }
+        }
+    };
+}
@@ -0,0 +1,71 @@
+/**
+ * Bounds on the keys a distinct or distinctBy stage remembers. By default every key is kept for the whole run.
+ *
+ * `maxKeys` caps how many keys are kept; past it the least recently seen key is forgotten, and a value whose key was
+ * forgotten passes again.
+ */
+export type DistinctOptions = { maxKeys?: number };
+
+/**
+ * Bounds on the keys a LazyAsyncIterator distinct or distinctBy stage remembers.
+ *
+ * `ttl` also forgets a key once that many milliseconds pass without it being seen.
+ */
+export type AsyncDistinctOptions = DistinctOptions & { ttl?: number };
+
+export type ResolvedDistinctOptions = { maxKeys: number, ttl: number };
+
+/**
+ * Validates distinct options and fills in their defaults.
+ *
+ * @throws Error If maxKeys is not a positive integer or ttl is not a positive number.
+ */
+export function resolveDistinctOptions(method: string, options: AsyncDistinctOptions = {}): ResolvedDistinctOptions {
+    const { maxKeys = Infinity, ttl = Infinity } = options ?? {};
+    if (maxKeys !== Infinity && !(Number.isInteger(maxKeys) && maxKeys >= 1))
+        throw new Error(`${method}: maxKeys must be a positive integer`);
+    if (!(typeof ttl === 'number' && ttl > 0))
+        throw new Error(`${method}: ttl must be a positive number`);
+    return { maxKeys, ttl };
+}
+
+/**
+ * The keys a distinct stage has let through, ordered from least to most recently seen.
+ * Keys are compared with SameValueZero, so objects are only equal to themselves.
+ */
+export class SeenKeys {
+    private options: ResolvedDistinctOptions;
+    /**
+     * When each key was last seen, in the order they were last seen.
+     */
+    private keys: Map<any, number>;
+
+    constructor(options: ResolvedDistinctOptions) {
+        this.options = options;
+        this.keys = new Map();
+    }
+
+    /**
+     * Records that a key was seen, and returns true if it was not remembered yet.
+     */
+    add(key: any): boolean {
+        const { maxKeys, ttl } = this.options;
+        const bounded = maxKeys !== Infinity || ttl !== Infinity;
+        const now = ttl === Infinity ? 0 : Date.now();
+
+        if (ttl !== Infinity) {
+            for (const [k, seenAt] of this.keys) {
+                if (now - seenAt < ttl) break;
+                this.keys.delete(k);
+            }
+        }
+
+        const remembered = this.keys.has(key);
+        if (remembered && !bounded) return false;
+        // Moving the key to the end keeps the map in the order keys were last seen
+        this.keys.delete(key);
+        this.keys.set(key, now);
+        if (this.keys.size > maxKeys) this.keys.delete(this.keys.keys().next().value);
+        return !remembered;
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * Thrown when a pipeline is cancelled through an AbortSignal or abort().
+ * The abort reason is kept as the error's cause.
+ */
+export class AbortError extends Error {
+    constructor(reason?: unknown) {
+        super('The pipeline was aborted', { cause: reason });
+        this.name = 'AbortError';
+    }
+}
+
+/**
+ * Thrown when an async stage call or a whole pipeline runs past its time budget.
+ */
+export class TimeoutError extends Error {
+    readonly timeout: number;
+
+    constructor(timeout: number) {
+        super(`Timed out after ${timeout}ms`);
+        this.name = 'TimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Thrown when an input to a sorted merge or join yields a value that sorts before the previous one.
+ * `input` is the position of the offending input, and `previous` and `value` are the two values out of order
+ * (their keys, for joins).
+ */
+export class SortOrderError extends Error {
+    readonly input: number;
+    readonly previous: unknown;
+    readonly value: unknown;
+
+    constructor(method: string, input: number, previous: unknown, value: unknown) {
+        super(`${method}: input ${input} is not sorted; a value sorts before the one that came before it`);
+        this.name = 'SortOrderError';
+        this.input = input;
+        this.previous = previous;
+        this.value = value;
+    }
+}
+
+/**
+ * One failed attempt of a retried call. `retryDelay` is how long was waited before the next attempt,
+ * and is missing on the attempt that gave up.
+ */
+export type RetryAttempt = { attempt: number, error: unknown, retryDelay?: number };
+
+/**
+ * Thrown when a retried call fails for the last time, either because it ran out of attempts or because
+ * retryIf declined to retry. The last error is kept as the cause and every attempt is listed in `history`.
+ */
+export class RetryError extends Error {
+    readonly history: RetryAttempt[];
+
+    constructor(history: RetryAttempt[]) {
+        const last = history[history.length - 1];
+        const reason = last.error instanceof Error ? last.error.message : String(last.error);
+        super(`Failed after ${history.length} attempt${history.length === 1 ? '' : 's'}: ${reason}`, { cause: last.error });
+        this.name = 'RetryError';
+        this.history = history;
+    }
+
+    /**
+     * The number of attempts that were made.
+     */
+    get attempts() {
+        return this.history.length;
+    }
+}
@@ -0,0 +1,216 @@
+import { BinaryHeap } from './heap';
+
+/**
+ * The events of one key that fell into the same event-time window. `start` is inclusive and `end` exclusive,
+ * in the units returned by the timestamp extractor.
+ */
+export type EventWindow<T, K> = { key: K, start: number, end: number, values: T[] };
+
+/**
+ * Options shared by every event-time window stage.
+ *
+ * `timestamp` returns the event time of a value. `key` groups values into independent windows (all values share one
+ * key by default). `allowedLateness` is how far behind the largest timestamp seen so far the watermark trails
+ * (defaults to 0): a window is emitted once the watermark passes its end, and values that only belong to windows
+ * that were already emitted are dropped.
+ */
+export type EventWindowOptions<T, K> = { timestamp: (x: T) => number, key?: (x: T) => K, allowedLateness?: number };
+
+/**
+ * Options for a tumblingWindow stage: back-to-back windows of `size` time units.
+ */
+export type TumblingWindowOptions<T, K> = EventWindowOptions<T, K> & { size: number };
+
+/**
+ * Options for a slidingWindow stage: windows of `size` time units starting every `slide` time units.
+ */
+export type SlidingWindowOptions<T, K> = EventWindowOptions<T, K> & { size: number, slide: number };
+
+/**
+ * Options for a sessionWindow stage: a key's session closes once it has seen no value for `gap` time units.
+ */
+export type SessionWindowOptions<T, K> = EventWindowOptions<T, K> & { gap: number };
+
+type WindowAssigner =
+    { kind: 'tumbling', size: number } |
+    { kind: 'sliding', size: number, slide: number } |
+    { kind: 'session', gap: number };
+
+export type ResolvedEventWindowOptions = {
+    assigner: WindowAssigner,
+    timestamp: (x: any) => number,
+    key: (x: any) => any,
+    allowedLateness: number
+};
+
+/**
+ * Validates the options of an event-time window stage and fills in their defaults.
+ *
+ * @throws TypeError If timestamp or key is not a function.
+ * @throws Error If a size, slide or gap is not a positive number, or allowedLateness is negative.
+ */
+export function resolveEventWindowOptions(method: string, options: EventWindowOptions<any, any>, assigner: WindowAssigner): ResolvedEventWindowOptions {
+    const { timestamp, key = () => undefined, allowedLateness = 0 } = options ?? {};
+    if (typeof timestamp !== 'function')
+        throw new TypeError(`${method}: timestamp must be a function`);
+    if (typeof key !== 'function')
+        throw new TypeError(`${method}: key must be a function`);
+    if (!(typeof allowedLateness === 'number' && allowedLateness >= 0))
+        throw new Error(`${method}: allowedLateness must be a non-negative number`);
+    for (const [name, value] of Object.entries(assigner)) {
+        if (name !== 'kind' && !(typeof value === 'number' && value > 0 && Number.isFinite(value)))
+            throw new Error(`${method}: ${name} must be a positive number`);
+    }
+    return { assigner, timestamp, key, allowedLateness };
+}
+
+/**
+ * An open window with the order it was opened in, which breaks ties between windows with the same bounds.
+ */
+type OpenWindow = { window: EventWindow<any, any>, seq: number };
+
+/**
+ * Returns the position of the first window of a key that starts at or after `start`, by binary search.
+ */
+function startIndex(windows: EventWindow<any, any>[], start: number) {
+    let low = 0;
+    let high = windows.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (windows[mid].start < start) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+}
+
+/**
+ * The open windows of an event-time window stage and its watermark.
+ *
+ * Windows are kept per key, ordered by start, and only until the watermark passes their end, so memory is bounded by
+ * the number of keys active within the allowed lateness. A min-heap of window ends finds the windows to close without
+ * visiting the other keys, so adding a value costs the same however many keys are open.
+ */
+export class EventWindowState {
+    private options: ResolvedEventWindowOptions;
+    private open: Map<any, EventWindow<any, any>[]>;
+    private ends: BinaryHeap<OpenWindow>;
+    /**
+     * Sessions that were merged into a larger one. Their heap entries are skipped when they reach the top.
+     */
+    private superseded: Set<EventWindow<any, any>>;
+    private opened: number;
+    private watermark: number;
+    /**
+     * The index of the last value added, passed downstream with the windows emitted when the stream ends.
+     */
+    lastIndex: number;
+
+    constructor(options: ResolvedEventWindowOptions) {
+        this.options = options;
+        this.open = new Map();
+        this.ends = new BinaryHeap((a, b) => a.window.end - b.window.end || a.window.start - b.window.start || a.seq - b.seq);
+        this.superseded = new Set();
+        this.opened = 0;
+        this.watermark = -Infinity;
+        this.lastIndex = 0;
+    }
+
+    /**
+     * True while any window is still open.
+     */
+    get hasOpenWindows() {
+        return this.open.size > 0;
+    }
+
+    /**
+     * Adds a value to the windows it belongs to, advances the watermark and returns the windows it closed,
+     * ordered by end.
+     *
+     * @throws TypeError If the timestamp extractor does not return a finite number.
+     */
+    add(value: any, index: number): EventWindow<any, any>[] {
+        const { timestamp, key: keyOf, assigner, allowedLateness } = this.options;
+        const time = timestamp(value);
+        if (typeof time !== 'number' || !Number.isFinite(time))
+            throw new TypeError('Event-time window: timestamp must return a finite number');
+
+        const key = keyOf(value);
+        const windows = this.open.get(key) ?? [];
+        this.lastIndex = index;
+
+        if (assigner.kind === 'session') {
+            this.addToSession(windows, key, value, time, assigner.gap);
+        } else {
+            const slide = assigner.kind === 'sliding' ? assigner.slide : assigner.size;
+            for (let start = Math.floor(time / slide) * slide; start > time - assigner.size; start -= slide) {
+                // Values that only fall into windows that were already emitted are late and dropped
+                if (start + assigner.size <= this.watermark) continue;
+                const position = startIndex(windows, start);
+                let window = windows[position];
+                if (window?.start !== start) {
+                    window = { key, start, end: start + assigner.size, values: [] };
+                    this.insert(windows, position, window);
+                }
+                window.values.push(value);
+            }
+        }
+
+        if (windows.length > 0) this.open.set(key, windows);
+        this.watermark = Math.max(this.watermark, time - allowedLateness);
+        return this.close(this.watermark);
+    }
+
+    /**
+     * Closes and returns every open window, ordered by end. Used once the stream ends.
+     */
+    flush(): EventWindow<any, any>[] {
+        return this.close(Infinity);
+    }
+
+    /**
+     * Starts a session of `gap` for the value and merges it with the key's open sessions it overlaps.
+     */
+    private addToSession(windows: EventWindow<any, any>[], key: any, value: any, time: number, gap: number) {
+        let merged: EventWindow<any, any> = { key, start: time, end: time + gap, values: [value] };
+        // Sessions of a key never overlap each other, so the ones to merge with are next to each other in start order
+        let first = startIndex(windows, time);
+        if (first > 0 && windows[first - 1].end > time) first--;
+        let last = first;
+        for (; last < windows.length && windows[last].start < merged.end; last++) {
+            const window = windows[last];
+            merged = {
+                key,
+                start: Math.min(window.start, merged.start),
+                end: Math.max(window.end, merged.end),
+                values: window.start <= merged.start ? [...window.values, ...merged.values] : [...merged.values, ...window.values]
+            };
+        }
+        if (merged.end <= this.watermark) return;
+        for (const window of windows.splice(first, last - first)) this.superseded.add(window);
+        this.insert(windows, first, merged);
+    }
+
+    /**
+     * Opens a window at the given position of its key's windows.
+     */
+    private insert(windows: EventWindow<any, any>[], position: number, window: EventWindow<any, any>) {
+        windows.splice(position, 0, window);
+        this.ends.push({ window, seq: this.opened++ });
+    }
+
+    /**
+     * Removes and returns the windows that end at or before the watermark, ordered by end and then start.
+     */
+    private close(watermark: number): EventWindow<any, any>[] {
+        const closed: EventWindow<any, any>[] = [];
+        while (this.ends.size > 0 && this.ends.peek()!.window.end <= watermark) {
+            const { window } = this.ends.pop()!;
+            if (this.superseded.delete(window)) continue;
+            const windows = this.open.get(window.key)!;
+            windows.splice(windows.indexOf(window), 1);
+            if (windows.length === 0) this.open.delete(window.key);
+            closed.push(window);
+        }
+        return closed;
+    }
+}
@@ -24,12 +24,10 @@ async function* paginatedApi(): AsyncGenerator<ApiPage> {
 }
 
 (async () => {
-  const iter = LazyAsyncIterator.from(paginatedApi())
-    .mapAsync(async page => page.products)
-    .mapAsync(async arr => arr.flat())
-    .filterAsync(async arr => arr.length > 0);
-  const allProducts = (await iter.collect()).flat();
-  const inStock = allProducts.filter(p => p.inStock);
+  const inStock = await LazyAsyncIterator.from(paginatedApi())
+    .flatMap(page => page.products)
+    .filter(p => p.inStock)
+    .collect();
   const avgPrice = inStock.reduce((sum, p) => sum + p.price, 0) / inStock.length;
   console.log('In-stock products:', inStock);
   console.log('Average price:', avgPrice.toFixed(2));
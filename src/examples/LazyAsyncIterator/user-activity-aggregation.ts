@@ -3,26 +3,45 @@ import { LazyAsyncIterator } from '../..';
 
 type Event = { userId: string; type: string; timestamp: string };
 
-// Simulate DB cursor as async generator
+const MINUTE = 60_000;
+
+// Simulate DB cursor as async generator. Events arrive roughly in time order, but up to a minute out of order.
 async function* eventCursor(): AsyncGenerator<Event> {
   const users = ['alice', 'bob', 'carol'];
+  const start = Date.now();
   for (let i = 0; i < 30; i++) {
     await new Promise(r => setTimeout(r, 5));
     yield {
       userId: users[Math.floor(Math.random() * users.length)],
       type: Math.random() > 0.5 ? 'login' : 'logout',
-      timestamp: new Date(Date.now() - Math.random() * 1000000).toISOString()
+      timestamp: new Date(start + i * 20_000 - Math.random() * MINUTE).toISOString()
     };
   }
 }
 
 (async () => {
+  // Login counts per user in 5-minute event-time windows, emitted as soon as each window is complete
   const iter = LazyAsyncIterator.from(eventCursor())
-    .filterAsync(async e => e.type === 'login');
-  const logins = await iter.collect();
-  const byUser: Record<string, number> = {};
-  for (const e of logins) {
-    byUser[e.userId] = (byUser[e.userId] || 0) + 1;
-  }
-  console.log('Login counts per user:', byUser);
+    .filterAsync(async e => e.type === 'login')
+    .tumblingWindow({
+      size: 5 * MINUTE,
+      timestamp: e => Date.parse(e.timestamp),
+      key: e => e.userId,
+      allowedLateness: MINUTE
+    })
+    .forEach(w => console.log(`${w.key} @ ${new Date(w.start).toISOString()}: ${w.values.length} logins`));
+
+  await iter.collect();
+
+  // Sessions: a user's activity with no more than 2 minutes between events
+  const sessions = await LazyAsyncIterator.from(eventCursor())
+    .sessionWindow({
+      gap: 2 * MINUTE,
+      timestamp: e => Date.parse(e.timestamp),
+      key: e => e.userId,
+      allowedLateness: MINUTE
+    })
+    .map(s => ({ user: s.key, minutes: (s.end - s.start) / MINUTE, events: s.values.length }))
+    .collect();
+  console.log('Sessions:', sessions);
 })();
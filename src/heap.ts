@@ -0,0 +1,97 @@
+/**
+ * A binary min-heap ordered by a comparator.
+ *
+ * push and pop are O(log n) and peek is O(1). The smallest value according to the comparator is at the top;
+ * pass a reversed comparator for a max-heap.
+ *
+ * @template T The type of stored elements.
+ */
+export class BinaryHeap<T> {
+    private values: T[];
+    private compare: (a: T, b: T) => number;
+
+    constructor(compare: (a: T, b: T) => number) {
+        this.values = [];
+        this.compare = compare;
+    }
+
+    /**
+     * The number of stored elements.
+     */
+    get size() {
+        return this.values.length;
+    }
+
+    /**
+     * Returns the smallest value without removing it, or undefined if the heap is empty.
+     */
+    peek(): T | undefined {
+        return this.values[0];
+    }
+
+    /**
+     * Adds a value to the heap.
+     */
+    push(value: T) {
+        this.values.push(value);
+        this.siftUp(this.values.length - 1);
+    }
+
+    /**
+     * Removes and returns the smallest value, or undefined if the heap is empty.
+     */
+    pop(): T | undefined {
+        if(this.values.length === 0) return undefined;
+        const top = this.values[0];
+        const last = this.values.pop()!;
+        if(this.values.length > 0) {
+            this.values[0] = last;
+            this.siftDown(0);
+        }
+        return top;
+    }
+
+    /**
+     * Removes the smallest value and adds another in a single sift, returning the removed value.
+     * The heap must not be empty.
+     */
+    replaceTop(value: T): T {
+        const top = this.values[0];
+        this.values[0] = value;
+        this.siftDown(0);
+        return top;
+    }
+
+    /**
+     * Removes and returns every value, in no particular order.
+     */
+    drain(): T[] {
+        const values = this.values;
+        this.values = [];
+        return values;
+    }
+
+    private siftUp(index: number) {
+        const values = this.values;
+        while(index > 0) {
+            const parent = (index - 1) >> 1;
+            if(this.compare(values[index], values[parent]) >= 0) break;
+            [values[index], values[parent]] = [values[parent], values[index]];
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number) {
+        const values = this.values;
+        while(true) {
+            const left = 2 * index + 1;
+            const right = left + 1;
+            let smallest = index;
+            if(left < values.length && this.compare(values[left], values[smallest]) < 0) smallest = left;
+            if(right < values.length && this.compare(values[right], values[smallest]) < 0) smallest = right;
+            if(smallest === index) break;
+            [values[index], values[smallest]] = [values[smallest], values[index]];
+            index = smallest;
+        }
+    }
+}
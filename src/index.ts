@@ -1,6 +1,17 @@
-import { createTeeIterators, teeConsumers, TeeConsumer } from './tee';
+import { createTeeIterators, createAsyncTeeIterators, teeConsumers, TeeConsumer, TeeOptions, TeeBufferPolicy, TeeInspection, TeeIterator, AsyncTeeIterator } from './tee';
 import { LazyIterator } from './lazy-iterator'
-import { LazyAsyncIterator } from './lazy-async-iterator'
+import { LazyAsyncIterator, AsyncStageOptions, AsyncPipelineOptions, TerminalOptions, BufferTimeOptions } from './lazy-async-iterator'
+import { AbortError, TimeoutError, RetryError, SortOrderError, RetryAttempt } from './errors'
+import { RetryOptions } from './retry'
+import { RateLimitOptions } from './rate-limit'
+import { EventWindow, EventWindowOptions, TumblingWindowOptions, SlidingWindowOptions, SessionWindowOptions } from './event-windows'
+import { MergeOptions, Tagged } from './merge'
+import { SortedJoinOptions } from './sorted'
+import { DiffOptions, DiffRecord } from './diff'
+import { DistinctOptions, AsyncDistinctOptions } from './distinct'
+import { SortByOptions } from './sort'
+import { Stats } from './stats'
+import { HyperLogLog, TDigest, SpaceSaving, HyperLogLogOptions, TDigestOptions, SpaceSavingOptions, HeavyHitter, SerializedHyperLogLog, SerializedTDigest, SerializedSpaceSaving } from './sketches'
 
 
 
@@ -17,6 +28,7 @@ declare global {
      * 
      * Applies multiple consumer operations (map, filter, reduce, forEach) in parallel to an array, using independent iterators for each consumer.
      * Each consumer receives elements and their index, and results are returned in an array matching the order of consumers.
+     * The approxDistinct, approxQuantiles and heavyHitters kinds return a mergeable HyperLogLog, TDigest or SpaceSaving sketch of what `fn` returns.
      * Supports runtime type checking for consumer configuration and robust error handling.
      * @example
      * const arr = [1,2,3];
@@ -41,7 +53,8 @@ declare global {
      * @template T - The type of elements in the source iterable.
      * @param {Iterable<T>} sourceIterable - The iterable to split into multiple iterators.
      * @param {number} count - The number of independent iterators to create.
-     * @returns {IterableIterator<T>[]} An array of independent iterators over the source iterable.
+     * @param {TeeOptions} [options] - `maxBuffer` bounds the elements kept for slower branches and `policy` chooses what happens when it is full.
+     * @returns {TeeIterator<T>[]} An array of independent iterators over the source iterable. Each has an `inspect()` method reporting buffer depth and per-branch lag.
      * @throws {Error} If incorrect arguments are provided or the source is not iterable.
      *
      * @example
@@ -52,11 +65,21 @@ declare global {
      * console.log(it1.next().value); // 2
      * console.log(it2.next().value); // 2
      */
-    tee<T>(sourceIterable: Iterable<T>, count: number): IterableIterator<T>[];
+    tee<T>(sourceIterable: Iterable<T>, count: number, options?: TeeOptions): TeeIterator<T>[];
   }
 }
 
 export {
     LazyIterator,
-    LazyAsyncIterator
-};
\ No newline at end of file
+    LazyAsyncIterator,
+    createAsyncTeeIterators,
+    AbortError,
+    TimeoutError,
+    RetryError,
+    SortOrderError,
+    HyperLogLog,
+    TDigest,
+    SpaceSaving
+};
+
+export type { AsyncStageOptions, RetryOptions, RateLimitOptions, RetryAttempt, AsyncPipelineOptions, TerminalOptions, BufferTimeOptions, EventWindow, EventWindowOptions, TumblingWindowOptions, SlidingWindowOptions, SessionWindowOptions, MergeOptions, Tagged, SortedJoinOptions, DiffOptions, DiffRecord, DistinctOptions, AsyncDistinctOptions, SortByOptions, Stats, HyperLogLogOptions, TDigestOptions, SpaceSavingOptions, HeavyHitter, SerializedHyperLogLog, SerializedTDigest, SerializedSpaceSaving, TeeOptions, TeeBufferPolicy, TeeInspection, TeeIterator, AsyncTeeIterator };
\ No newline at end of file
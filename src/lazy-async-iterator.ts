@@ -1,4 +1,17 @@
-import {createAsyncTeeIterators} from './tee';
+import {createAsyncTeeIterators, TeeOptions} from './tee';
+import { AbortError, TimeoutError } from './errors';
+import { RetryOptions, ResolvedRetryOptions, resolveRetryOptions, withRetry } from './retry';
+import { RateLimitOptions, ResolvedRateLimitOptions, resolveRateLimitOptions, TokenBucket } from './rate-limit';
+import { RingBuffer } from './ring-buffer';
+import { assertCombinable, AsyncElementOf, combineAsyncIterables } from './combine';
+import { DiffOptions, diffAsyncIterables, DiffRecord, resolveDiffOptions } from './diff';
+import { assertTopK, externalSortIterable, resolveSortByOptions, SortByOptions, TopK } from './sort';
+import { AsyncDistinctOptions, ResolvedDistinctOptions, resolveDistinctOptions, SeenKeys } from './distinct';
+import { JoinMode, mergeSortedAsyncIterables, naturalOrder, resolveSortedJoinOptions, SortedJoinOptions, sortedJoinAsyncIterables } from './sorted';
+import { isMergeOptions, mergeAsyncIterables, MergeOptions, resolveMergeOptions, Tagged } from './merge';
+import { EventWindow, EventWindowState, ResolvedEventWindowOptions, resolveEventWindowOptions, SessionWindowOptions, SlidingWindowOptions, TumblingWindowOptions } from './event-windows';
+import { Extremum, RunningStats, Stats, Summation, Summed } from './stats';
+import { HyperLogLog, HyperLogLogOptions, SpaceSaving, SpaceSavingOptions, TDigest, TDigestOptions } from './sketches';
 
 /**
  * A function that maps a value and its index to a new value (sync).
@@ -16,18 +29,39 @@ type ForEachFunc<T,S extends any = any> = (x: T, idx: number) => void;
  * A function that reduces values to a single accumulated result (sync).
  */
 type ReduceFunc<T,S> = (acc: S, curr: T, idx: number) => S;
+/**
+ * A function that reduces values to a single accumulated result (async).
+ */
+type ReduceAsyncFunc<T,S> = (acc: S, curr: T, idx: number) => Promise<S>;
 /**
  * A function that maps a value and its index to a new value (async).
+ * `signal` aborts when the pipeline is aborted, so the callback can cancel its own work.
  */
-type MapAsyncFunc<T,S> = (x: T, idx: number) => Promise<S>
+type MapAsyncFunc<T,S> = (x: T, idx: number, signal: AbortSignal) => Promise<S>
 /**
  * A function that filters values based on a predicate (async).
+ * `signal` aborts when the pipeline is aborted, so the callback can cancel its own work.
+ */
+type FilterAsyncFunc<T, S extends any = any> = (x: T, idx: number, signal: AbortSignal) => Promise<boolean>
+/**
+ * A predicate for terminal queries such as find and some, sync or async.
+ * `signal` aborts when the pipeline is aborted, so the callback can cancel its own work.
  */
-type FilterAsyncFunc<T, S extends any = any> = (x: T, idx: number) => Promise<boolean>
+type PredicateFunc<T> = (x: T, idx: number, signal: AbortSignal) => boolean | Promise<boolean>;
 /**
  * A function that performs a side effect for each value (async).
+ * `signal` aborts when the pipeline is aborted, so the callback can cancel its own work.
+ */
+type ForEachAsyncFunc<T, S extends any = any> = (x: T, idx: number, signal: AbortSignal) => Promise<void>
+/**
+ * A function that expands a value into an iterable or async iterable of values (sync).
+ */
+type FlatMapFunc<T,S> = (x: T, idx: number) => Iterable<S> | AsyncIterable<S>
+/**
+ * A function that expands a value into an iterable or async iterable of values (async).
+ * `signal` aborts when the pipeline is aborted, so the callback can cancel its own work.
  */
-type ForEachAsyncFunc<T, S extends any = any> = (x: T, idx: number) => Promise<void>
+type FlatMapAsyncFunc<T,S> = (x: T, idx: number, signal: AbortSignal) => Promise<Iterable<S> | AsyncIterable<S>>
 
 type AsyncIterMethods<T,S> = 
     MapFunc<T,S> |
@@ -37,6 +71,8 @@ type AsyncIterMethods<T,S> =
     MapAsyncFunc<T,S> |
     FilterAsyncFunc<T,S> |
     ForEachAsyncFunc<T,S> |
+    FlatMapFunc<T,S> |
+    FlatMapAsyncFunc<T,S> |
     Iterator<T> |
     AsyncIterator<T>;
 
@@ -51,14 +87,270 @@ type GetLastMethodType<T extends any[]> =
 
 type Push<T extends any[], S extends any> = [...T, S];
 
-type AsyncChainMethod = { kind: 'mapAsync' | 'filterAsync' | 'forEachAsync', fn: MapAsyncFunc<any,any> | FilterAsyncFunc<any,any> | ForEachAsyncFunc<any,any> };
-type SyncChainMethod = { kind: 'map' | 'filter' | 'forEach', fn: MapFunc<any,any> | FilterFunc<any,any> | ForEachFunc<any,any>};
-type ReduceMethod = { kind: 'reduce', fn: ReduceFunc<any,any>, initVal?: any };
+type AsyncChainMethod = { kind: 'mapAsync' | 'filterAsync' | 'forEachAsync' | 'flatMapAsync', fn: MapAsyncFunc<any,any> | FilterAsyncFunc<any,any> | ForEachAsyncFunc<any,any> | FlatMapAsyncFunc<any,any>, concurrency?: number, ordered?: boolean, timeout?: number, retry?: ResolvedRetryOptions };
+type SyncChainMethod = { kind: 'map' | 'filter' | 'forEach' | 'takeWhile' | 'dropWhile' | 'flatMap' | 'groupAdjacent', fn: MapFunc<any,any> | FilterFunc<any,any> | ForEachFunc<any,any> | FlatMapFunc<any,any>};
+type ScanMethod = { kind: 'scan', fn: ReduceFunc<any,any>, initVal?: any };
+type LimitMethod = { kind: 'take' | 'drop', limit: number };
+type RateLimitMethod = { kind: 'rateLimit', options: ResolvedRateLimitOptions };
+type ChunkMethod = { kind: 'chunk', size: number, maxWaitMs?: number };
+type WindowMethod = { kind: 'window', size: number, step: number };
+type EventWindowMethod = { kind: 'eventWindow', options: ResolvedEventWindowOptions };
+type DistinctMethod = { kind: 'distinct', fn: MapFunc<any,any>, options: ResolvedDistinctOptions };
+type DistinctUntilChangedMethod = { kind: 'distinctUntilChanged', fn: (previous: any, current: any) => boolean };
+
+type ChainMethod = SyncChainMethod | AsyncChainMethod | ScanMethod | LimitMethod | RateLimitMethod | ChunkMethod | WindowMethod | EventWindowMethod | DistinctMethod | DistinctUntilChangedMethod;
+
+type AsyncSource<T> = Iterator<T> | AsyncIterator<T> | Iterable<T> | AsyncIterable<T>;
+
+/**
+ * Options for an async mapAsync/filterAsync stage.
+ *
+ * `concurrency` is the number of callback calls kept in flight (defaults to 1).
+ * `ordered` emits results in source order when true (the default), or as soon as they complete when false.
+ * `timeout` rejects a call with a TimeoutError once it has run for that many milliseconds, and aborts the signal passed to it.
+ * `retry` calls the callback again when it fails; the timeout applies to each attempt.
+ */
+export type AsyncStageOptions = { concurrency?: number, ordered?: boolean, timeout?: number, retry?: RetryOptions };
+
+/**
+ * Options that apply to a whole pipeline and every pipeline derived from it.
+ *
+ * `signal` cancels the pipeline: pending next() calls reject with an AbortError and the source is closed.
+ * `deadline` is a total time budget in milliseconds, counted from the first next() call. Once it runs out the
+ * pipeline is aborted and pending next() calls reject with a TimeoutError.
+ */
+export type AsyncPipelineOptions = { signal?: AbortSignal, deadline?: number };
+
+/**
+ * Options accepted by terminal operations.
+ *
+ * `concurrency` is the number of next() calls requested at once, and `signal` cancels the pipeline while the terminal runs.
+ */
+export type TerminalOptions = { concurrency?: number, signal?: AbortSignal };
+
+/**
+ * Options for a bufferTime stage.
+ *
+ * `maxSize` is the number of values that fills a batch (unbounded by default).
+ * `maxWaitMs` is how long, in milliseconds, a batch may wait for more values after its first one before it is emitted as it is.
+ */
+export type BufferTimeOptions = { maxSize?: number, maxWaitMs: number };
+
+/**
+ * A callback call started by a concurrent stage. `settled` resolves to the task itself once `outcome` is set.
+ */
+type WindowTask = {
+    input: any,
+    index: number,
+    settled: Promise<WindowTask>,
+    outcome?: PromiseSettledResult<any>
+};
+
+/**
+ * The in-flight calls of a concurrent stage, oldest first.
+ */
+type ConcurrencyWindow = {
+    tasks: WindowTask[],
+    upstreamDone: boolean
+};
+
+/**
+ * The outcome of pulling a value through part of the pipeline, along with the source index it came from.
+ */
+type Pulled =
+    { done: false, value: any, index: number } |
+    { done: true };
+
+/**
+ * An inner iterator produced by a flatMap stage that has not been fully consumed yet.
+ */
+type InnerIterator = {
+    stage: number,
+    iterator: Iterator<any> | AsyncIterator<any>,
+    index: number
+};
+
+/**
+ * The values a chunk, bufferTime or groupAdjacent stage has collected towards its next batch, the index of the first of them,
+ * and when that first value arrived. For groupAdjacent, `key` is the key the values share.
+ */
+type Batch = {
+    items: any[],
+    index: number,
+    startedAt: number,
+    key?: any
+};
+
+/**
+ * The key type of a [key, value] entry.
+ */
+type EntryKey<T> = T extends readonly [infer K, any] ? K : never;
+/**
+ * The value type of a [key, value] entry.
+ */
+type EntryValue<T> = T extends readonly [any, infer V] ? V : never;
+
+/**
+ * The values a window stage currently holds with their indexes, oldest first, and how many upcoming
+ * values it still has to skip before the next window starts.
+ */
+type WindowBuffer = {
+    entries: RingBuffer<{ value: any, index: number }>,
+    skip: number
+};
+
+type StageResult =
+    { status: 'emit', value: any } |
+    { status: 'skip' } |
+    { status: 'done', stage: number };
+
+/**
+ * Returns an iterator over the result of a flatMap callback, preferring the async protocol when both are present.
+ *
+ * @throws TypeError If the result is not an iterable or async iterable object.
+ */
+function getInnerIterator(result: unknown): Iterator<any> | AsyncIterator<any> {
+    if(typeof result === 'object' && result !== null) {
+        if(typeof (result as any)[Symbol.asyncIterator] === 'function')
+            return (result as AsyncIterable<any>)[Symbol.asyncIterator]();
+        if(typeof (result as any)[Symbol.iterator] === 'function')
+            return (result as Iterable<any>)[Symbol.iterator]();
+    }
+    throw new TypeError('flatMap(cb): cb must return an iterable or async iterable');
+}
+
+/**
+ * Returns true if two keys are equal under SameValueZero, the equality Map and Set use.
+ */
+function sameKey(a: unknown, b: unknown) {
+    return a === b || (a !== a && b !== b);
+}
+
+/**
+ * Returns the key and value of a [key, value] entry.
+ *
+ * @throws TypeError If the value is not an entry.
+ */
+function toEntry(method: string, value: any): [any, any] {
+    if(typeof value !== 'object' || value === null) throw new TypeError(`${method}: values must be [key, value] entries`);
+    return [value[0], value[1]];
+}
+
+/**
+ * Validates the options of an async stage and fills in their defaults.
+ *
+ * @throws Error If concurrency is not a positive integer, timeout is not a positive number, or the retry options are invalid.
+ */
+function resolveStageOptions(method: string, options: AsyncStageOptions = {}) {
+    const { concurrency = 1, ordered = true, timeout } = options;
+    const retry = options.retry === undefined ? undefined : resolveRetryOptions(method, options.retry);
+    if (!Number.isInteger(concurrency) || concurrency < 1)
+        throw new Error(`${method}(cb, options): concurrency must be a positive integer`);
+    if (timeout !== undefined && !(typeof timeout === 'number' && timeout > 0))
+        throw new Error(`${method}(cb, options): timeout must be a positive number of milliseconds`);
+    return { concurrency, ordered, timeout, retry };
+}
+
+/**
+ * Calls an async stage callback, retrying it if the stage has retry options.
+ */
+function callStage(method: AsyncChainMethod, input: any, index: number, signal: AbortSignal): Promise<any> {
+    const attempt = () => callWithTimeout(method.fn, input, index, signal, method.timeout);
+    return method.retry ? withRetry(attempt, method.retry, signal) : attempt();
+}
+
+/**
+ * Calls an async stage callback once. With a timeout, the call gets its own signal, which aborts along with the pipeline's
+ * or when the timeout fires, in which case the returned promise rejects with a TimeoutError.
+ */
+function callWithTimeout(fn: (x: any, idx: number, signal: AbortSignal) => any, input: any, index: number, signal: AbortSignal, timeout?: number): Promise<any> {
+    if(timeout === undefined) return Promise.resolve().then(() => fn(input, index, signal));
+
+    const controller = new AbortController();
+    const unlink = linkSignal(signal, reason => controller.abort(reason));
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            const error = new TimeoutError(timeout);
+            controller.abort(error);
+            reject(error);
+        }, timeout);
+        Promise.resolve()
+            .then(() => fn(input, index, controller.signal))
+            .then(resolve, reject)
+            .finally(() => {
+                clearTimeout(timer);
+                unlink();
+            });
+    });
+}
+
+/**
+ * Returns true for mapAsync/filterAsync stages that keep more than one call in flight.
+ */
+function isConcurrentStage(method: { kind: string, concurrency?: number }) {
+    return (method.kind === 'mapAsync' || method.kind === 'filterAsync') && (method.concurrency ?? 1) > 1;
+}
+
+/**
+ * Starts a callback call for a concurrent stage. Rejections are captured on the task, so a call that fails
+ * before its result is requested does not surface as an unhandled rejection.
+ */
+function startTask(method: AsyncChainMethod, input: any, index: number, signal: AbortSignal): WindowTask {
+    const task = { input, index } as WindowTask;
+    task.settled = callStage(method, input, index, signal)
+        .then(
+            value => { task.outcome = { status: 'fulfilled', value }; return task; },
+            reason => { task.outcome = { status: 'rejected', reason }; return task; }
+        );
+    return task;
+}
+
+/**
+ * Normalizes a terminal's options, which may also be given as just a concurrency number.
+ */
+function resolveTerminalOptions(options: number | TerminalOptions = {}): TerminalOptions {
+    return typeof options === 'number' ? { concurrency: options } : options;
+}
+
+/**
+ * Calls onAbort once the signal aborts, right away if it already has. Returns a function that stops listening.
+ */
+function linkSignal(signal: AbortSignal | undefined, onAbort: (reason: unknown) => void) {
+    if(!signal) return () => {};
+    if(signal.aborted) {
+        onAbort(signal.reason);
+        return () => {};
+    }
+    const listener = () => onAbort(signal.reason);
+    signal.addEventListener('abort', listener, { once: true });
+    return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Returns the error pending next() calls reject with once the pipeline is aborted with the given reason.
+ * Running out of the pipeline deadline surfaces as its TimeoutError, anything else as an AbortError.
+ */
+function abortErrorFor(reason: unknown) {
+    return reason instanceof TimeoutError ? reason : new AbortError(reason);
+}
+
+/**
+ * Settles like the given promise, unless the signal aborts first, in which case it rejects with an AbortError
+ * (or the TimeoutError of an expired deadline).
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    if(signal.aborted) return Promise.reject(abortErrorFor(signal.reason));
+    return new Promise<T>((resolve, reject) => {
+        const unlink = linkSignal(signal, reason => reject(abortErrorFor(reason)));
+        promise.then(resolve, reject).finally(unlink);
+    });
+}
 
 /**
  * A lazy, chainable async iterator supporting both sync and async map, filter, forEach, reduce, and other functional operations.
  *
  * Allows for efficient, composable async data processing pipelines without creating intermediate arrays.
+ * Every chained method returns a new LazyAsyncIterator and leaves the one it was called on unchanged.
  *
  * @template IterType The type of elements in the iterator.
  * @template Methods The chain of methods applied to the iterator.
@@ -67,575 +359,1821 @@ type ReduceMethod = { kind: 'reduce', fn: ReduceFunc<any,any>, initVal?: any };
  * @throws Error If take(n), drop(n), takeSettled(n), or dropSettled(n) is called with a negative number.
  */
 export class LazyAsyncIterator<IterType, Methods extends AsyncIterMethods<any,any>[] = [Iterator<IterType> | AsyncIterator<IterType>]> implements AsyncIterableIterator<IterType> {
-    iterator: Iterator<IterType> | AsyncIterator<IterType>;
+    /**
+     * The iterator or iterable this pipeline pulls from. Shared by every pipeline derived from this one.
+     */
+    private source: AsyncSource<IterType>;
+    private openedIterator: Iterator<IterType> | AsyncIterator<IterType> | null;
     methods: 
-        (SyncChainMethod | AsyncChainMethod | ReduceMethod)[]
+        readonly ChainMethod[]
 
     exhausted: boolean;
     caughtError: Error | null;
     index: number;
+    /**
+     * Per-stage counters used by take, drop, dropWhile, scan and distinctUntilChanged stages, indexed by stage position.
+     */
+    private stageCounts: number[];
+    /**
+     * Running accumulators of scan stages and the last values let through by distinctUntilChanged stages, indexed by stage position.
+     */
+    private accumulators: any[];
+    /**
+     * Token buckets of rateLimit and throttle stages, indexed by stage position. Each starts full on first use.
+     */
+    private tokenBuckets: TokenBucket[];
+    /**
+     * Inner iterators opened by flatMap stages, innermost (highest stage) last.
+     */
+    private innerIterators: InnerIterator[];
+    /**
+     * Partial batches of chunk, bufferTime and groupAdjacent stages, indexed by stage position.
+     */
+    private batches: (Batch | undefined)[];
+    /**
+     * Buffered values of window stages, indexed by stage position.
+     */
+    private windowBuffers: WindowBuffer[];
+    /**
+     * Open windows and watermarks of tumblingWindow, slidingWindow and sessionWindow stages, indexed by stage position.
+     */
+    private eventWindows: EventWindowState[];
+    /**
+     * Keys let through by distinct and distinctBy stages, indexed by stage position.
+     */
+    private seenKeys: SeenKeys[];
+    /**
+     * The stage each part of the pipeline ended at, indexed by the position that part ends before. -1 means its upstream is done.
+     * Nothing is pulled through that stage again, but partial batches after it are still flushed downstream.
+     */
+    private endedAt: (number | undefined)[];
+    /**
+     * Upstream pulls that were still running when a bufferTime batch timed out, keyed by the inner iterator
+     * or concurrent stage (-1 for the source) they pull from. The next pull from there picks them up.
+     */
+    private upstreamPulls: Map<InnerIterator | number, Promise<Pulled>>;
+    /**
+     * In-flight calls of concurrent mapAsync/filterAsync stages, indexed by stage position.
+     */
+    private windows: ConcurrencyWindow[];
+    /**
+     * Set once the source iterator has reported done, so it is never pulled again.
+     */
+    private sourceDone: boolean;
+    /**
+     * Settles when the last requested next() call has finished. Calls to next() are chained onto it,
+     * so overlapping calls run one after another instead of racing on the source and stage state.
+     */
+    private pending: Promise<unknown>;
+    /**
+     * The signal passed to from(). Shared by every pipeline derived from this one.
+     */
+    private signal: AbortSignal | undefined;
+    private signalLinked: boolean;
+    /**
+     * Stops listening to `signal`. Called once the pipeline finishes, so finished pipelines are not kept alive by it.
+     */
+    private unlinkSignal: () => void;
+    /**
+     * The total time budget passed to from(), in milliseconds. Each derived pipeline starts its own timer on its first next().
+     */
+    private deadline: number | undefined;
+    private deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    /**
+     * Aborted when this pipeline is aborted. Its signal rejects pending next() calls.
+     */
+    private abortController: AbortController;
+    /**
+     * Aborted when this pipeline is aborted or closed. Its signal is passed to async callbacks, so calls still in flight
+     * when the pipeline is closed early, e.g. by a satisfied take(n), can cancel their work.
+     */
+    private callbackController: AbortController;
 
     /**
-     * Constructs a LazyAsyncIterator from a given iterator or async iterator.
+     * Constructs a LazyAsyncIterator from a given iterator, async iterator, iterable, or async iterable.
      */
-    constructor(iterator: Iterator<IterType> | AsyncIterator<IterType>) {
-        this.iterator = iterator;
+    constructor(source: AsyncSource<IterType>) {
+        this.source = source;
+        this.openedIterator = null;
         this.methods = [];
         this.exhausted = false;
         this.caughtError = null;
         this.index = 0;
+        this.stageCounts = [];
+        this.accumulators = [];
+        this.tokenBuckets = [];
+        this.innerIterators = [];
+        this.batches = [];
+        this.windowBuffers = [];
+        this.eventWindows = [];
+        this.seenKeys = [];
+        this.endedAt = [];
+        this.upstreamPulls = new Map();
+        this.windows = [];
+        this.sourceDone = false;
+        this.pending = Promise.resolve();
+        this.signal = undefined;
+        this.signalLinked = false;
+        this.unlinkSignal = () => {};
+        this.deadline = undefined;
+        this.deadlineTimer = undefined;
+        this.abortController = new AbortController();
+        this.callbackController = new AbortController();
+    }
+
+    /**
+     * Creates a LazyAsyncIterator from an iterator, async iterator, iterable, or async iterable.
+     * Pass `options.signal` to cancel the pipeline, and every pipeline derived from it, from outside,
+     * and `options.deadline` to give each of them a total time budget.
+     *
+     * @throws Error If the input is null, undefined, or not an iterator/iterable, or the deadline is not a positive number.
+     */
+    static from<T>(input: Iterator<T> | AsyncIterator<T> | Iterable<T> | AsyncIterable<T>, options: AsyncPipelineOptions = {}): LazyAsyncIterator<T> {
+        if (options.deadline !== undefined && !(typeof options.deadline === 'number' && options.deadline > 0))
+            throw new Error('LazyAsyncIterator.from(input, options): deadline must be a positive number of milliseconds');
+        const iterator = LazyAsyncIterator.fromSource(input);
+        iterator.signal = options.signal;
+        iterator.deadline = options.deadline;
+        return iterator;
+    }
+
+    private static fromSource<T>(input: Iterator<T> | AsyncIterator<T> | Iterable<T> | AsyncIterable<T>): LazyAsyncIterator<T> {
+        if (input === undefined || input === null) {
+            throw new Error("LazyAsyncIterator cannot be created from null or undefined");
+        }
+        // If it's an async iterator
+        if (typeof input === 'object' && 'next' in input && typeof input.next === 'function' && (Symbol.asyncIterator in input)) {
+            return new LazyAsyncIterator<T>(input as AsyncIterator<T>);
+        }
+        // If it's a sync iterator
+        if (typeof input === 'object' && 'next' in input && typeof input.next === 'function' && (Symbol.iterator in input)) {
+            return new LazyAsyncIterator<T>(input as Iterator<T>);
+        }
+        // If it's an async or sync iterable. Iterables are opened lazily, so every pipeline derived from this one gets its own pass over them
+        if (typeof input === 'object' && (Symbol.asyncIterator in input || Symbol.iterator in input)) {
+            return new LazyAsyncIterator<T>(input);
+        }
+        throw new Error("Couldn't create LazyAsyncIterator. No valid iterator or iterable provided.");
+    }
+
+    /**
+     * Combines the inputs into tuples holding one value from each, stopping as soon as any input is done.
+     * The inputs that are not done yet are then closed, as they are when the combined pipeline is closed early.
+     *
+     * @throws Error If an input is not an iterator or iterable (sync or async).
+     */
+    static zip<T extends AsyncSource<any>[]>(...inputs: T) {
+        assertCombinable('LazyAsyncIterator.zip(...inputs)', inputs, true);
+        return new LazyAsyncIterator<{ [K in keyof T]: AsyncElementOf<T[K]> }>(combineAsyncIterables('zip', inputs));
+    }
+
+    /**
+     * Combines the inputs into tuples like zip(), but keeps going until every input is done, using `fill` in place of
+     * the values of inputs that already are.
+     *
+     * @throws Error If an input is not an iterator or iterable (sync or async).
+     */
+    static zipLongest<F, T extends AsyncSource<any>[]>(fill: F, ...inputs: T) {
+        assertCombinable('LazyAsyncIterator.zipLongest(fill, ...inputs)', inputs, true);
+        return new LazyAsyncIterator<{ [K in keyof T]: AsyncElementOf<T[K]> | F }>(combineAsyncIterables('zipLongest', inputs, fill));
+    }
+
+    /**
+     * Yields every value of each input in turn. Inputs are pulled only once the ones before them are done.
+     *
+     * @throws Error If an input is not an iterator or iterable (sync or async).
+     */
+    static concat<T extends AsyncSource<any>[]>(...inputs: T) {
+        assertCombinable('LazyAsyncIterator.concat(...inputs)', inputs, true);
+        return new LazyAsyncIterator<AsyncElementOf<T[number]>>(combineAsyncIterables('concat', inputs));
+    }
+
+    /**
+     * Yields one value from each input in turn, stopping as soon as the input whose turn it is is done.
+     *
+     * @throws Error If an input is not an iterator or iterable (sync or async).
+     */
+    static interleave<T extends AsyncSource<any>[]>(...inputs: T) {
+        assertCombinable('LazyAsyncIterator.interleave(...inputs)', inputs, true);
+        return new LazyAsyncIterator<AsyncElementOf<T[number]>>(combineAsyncIterables('interleave', inputs));
+    }
+
+    /**
+     * Yields one value from each input in turn, skipping inputs that are done, until every input is done.
+     *
+     * @throws Error If an input is not an iterator or iterable (sync or async).
+     */
+    static roundRobin<T extends AsyncSource<any>[]>(...inputs: T) {
+        assertCombinable('LazyAsyncIterator.roundRobin(...inputs)', inputs, true);
+        return new LazyAsyncIterator<AsyncElementOf<T[number]>>(combineAsyncIterables('roundRobin', inputs));
+    }
+
+    /**
+     * Merges sync or async inputs that are each sorted by `compare` into one sorted sequence, holding only one value
+     * per input at a time. Values that compare equal keep the order of their inputs.
+     *
+     * @throws TypeError If compare is not a function.
+     * @throws Error If an input is not an iterator or iterable (sync or async).
+     * @throws SortOrderError When an input yields a value that sorts before the previous one.
+     */
+    static mergeSorted<T extends AsyncSource<any>[]>(compare: (a: AsyncElementOf<T[number]>, b: AsyncElementOf<T[number]>) => number, ...inputs: T) {
+        if (typeof compare !== 'function') throw new TypeError('LazyAsyncIterator.mergeSorted(compare, ...inputs): compare must be a function');
+        assertCombinable('LazyAsyncIterator.mergeSorted(compare, ...inputs)', inputs, true);
+        return new LazyAsyncIterator<AsyncElementOf<T[number]>>(mergeSortedAsyncIterables('LazyAsyncIterator.mergeSorted(compare, ...inputs)', compare, inputs));
+    }
+
+    /**
+     * Pulls from every input at once and yields values in the order they arrive. A trailing options object can limit
+     * how many inputs are pulled from at a time, tag each value with the position of its input, and choose whether the
+     * first failing input fails the merge or is dropped. Closing the merged iterator closes every input.
+     *
+     * @throws Error If an input is not an iterator or iterable (sync or async), or the options are invalid.
+     */
+    static merge<T extends AsyncSource<any>[]>(...args: [...T, MergeOptions & { tagged: true }]): LazyAsyncIterator<Tagged<AsyncElementOf<T[number]>>>;
+    static merge<T extends AsyncSource<any>[]>(...args: [...T, MergeOptions]): LazyAsyncIterator<AsyncElementOf<T[number]>>;
+    static merge<T extends AsyncSource<any>[]>(...inputs: T): LazyAsyncIterator<AsyncElementOf<T[number]>>;
+    static merge(...args: unknown[]): LazyAsyncIterator<any> {
+        const options = args.length > 0 && isMergeOptions(args[args.length - 1]) ? args.pop() as MergeOptions : {};
+        assertCombinable('LazyAsyncIterator.merge(...inputs, options)', args, true);
+        return new LazyAsyncIterator(mergeAsyncIterables(args, resolveMergeOptions(options)));
+    }
+
+    /**
+     * The iterator values are pulled from. Iterable sources are opened on first access.
+     */
+    get iterator(): Iterator<IterType> | AsyncIterator<IterType> {
+        if(this.openedIterator === null) {
+            const source = this.source as any;
+            if(typeof source.next === 'function')
+                this.openedIterator = source as Iterator<IterType> | AsyncIterator<IterType>;
+            else if(typeof source[Symbol.asyncIterator] === 'function')
+                this.openedIterator = (source as AsyncIterable<IterType>)[Symbol.asyncIterator]();
+            else
+                this.openedIterator = (source as Iterable<IterType>)[Symbol.iterator]();
+        }
+        return this.openedIterator;
+    }
+
+    /**
+     * Returns a new LazyAsyncIterator over the same source with the given method appended to a copy of this chain.
+     * This pipeline is left untouched, so it can be branched or reused as a template.
+     */
+    private withMethod(method: ChainMethod): LazyAsyncIterator<IterType, any> {
+        const derived = new LazyAsyncIterator<IterType>(this.source);
+        derived.methods = [...this.methods, method];
+        derived.signal = this.signal;
+        derived.deadline = this.deadline;
+        return derived;
+    }
+
+    private async getNextElement() {
+        if(Symbol.iterator in this.iterator || Symbol.asyncIterator in this.iterator)
+            return this.iterator.next()
+        return { done: true, value: undefined}
+    }
+
+    private async executeChainedMethod<T>(method: SyncChainMethod | AsyncChainMethod, value: T, index: number) {
+        if(method.kind === 'mapAsync' || method.kind === 'filterAsync' || method.kind === 'forEachAsync' || method.kind === 'flatMapAsync')
+            return callStage(method as AsyncChainMethod, value, index, this.callbackController.signal)
+        return (method.fn as (x: T, idx: number) => any)(value, index)
+    }
+
+    private executeScanMethod<T>(method: ScanMethod, value: T, index: number, acc: any) {
+        return method.fn(acc, value, index)
+    }
+
+    [Symbol.asyncIterator]() {
+        return this
+    }
+    
+    /**
+     * Returns the next value in the iterator, applying all chained methods (sync and async).
+     * Overlapping calls are queued and resolved in the order they were made.
+     *
+     * @throws AbortError If the pipeline is aborted before or while the value is pulled.
+     * @throws TimeoutError If the pipeline deadline runs out before or while the value is pulled.
+     */
+    next(): Promise<IteratorResult<GetLastMethodType<Methods>[1]>> {
+        if(!this.signalLinked) {
+            this.signalLinked = true;
+            this.unlinkSignal = linkSignal(this.signal, reason => this.abort(reason));
+            if(this.deadline !== undefined && !this.exhausted) {
+                const deadline = this.deadline;
+                this.deadlineTimer = setTimeout(() => this.abort(new TimeoutError(deadline)), deadline);
+            }
+        }
+        const result = this.pending.then(() => this.pullNext());
+        this.pending = result.then(() => undefined, () => undefined);
+        return raceAbort(result, this.abortController.signal);
+    }
+
+    /**
+     * Cancels the pipeline: pending and later next() calls reject with an AbortError, the signal passed to async
+     * callbacks aborts, and the source is closed with return() without waiting for in-flight work.
+     */
+    abort(reason?: unknown) {
+        if(this.abortController.signal.aborted) return;
+        this.abortController.abort(reason);
+        this.callbackController.abort(reason);
+        this.return().catch(() => undefined);
+    }
+
+    private async pullNext(): Promise<IteratorResult<GetLastMethodType<Methods>[1]>> {
+        if(this.exhausted) return { done: true, value: undefined };
+
+        const pulled = await this.pull(this.methods.length);
+
+        if(pulled.done) {
+            // Close the source unless it ended on its own, e.g. when a take or takeWhile stage is satisfied
+            if(this.sourceDone) {
+                this.exhausted = true;
+                clearTimeout(this.deadlineTimer);
+                this.unlinkSignal();
+            }
+            else await this.return();
+            return { done: true, value: undefined }
+        }
+
+        return { done: false, value: pulled.value } as { done: false, value: GetLastMethodType<Methods>[1]}
+    }
+
+    /**
+     * Pulls the next value that makes it through the stages before `end`.
+     *
+     * Values come from the deepest open inner iterator in range first, then from the closest concurrent stage
+     * before `end`, or from the source if there is none. Once that upstream ends, partial batches in range are
+     * flushed before reporting done. While a bufferTime batch waits, a batch that runs out of time is emitted
+     * without waiting for the upstream pull, which is picked up again by the next pull.
+     */
+    private async pull(end: number): Promise<Pulled> {
+        const base = this.concurrentStageBefore(end);
+
+        while(true) {
+            const ended = this.endedAt[end];
+            const after = Math.max(base, ended ?? -1);
+            const inner = this.innerIteratorWithin(after, end);
+
+            const reached = this.reachedLimit(inner ? inner.stage : after, end);
+            if(reached !== -1) {
+                this.endedAt[end] = reached;
+                continue;
+            }
+
+            let next: { value: any, index: number, start: number };
+
+            if(!inner && ended !== undefined) {
+                const stage = this.pendingBatchWithin(ended, end);
+                if(stage === -1) return { done: true };
+                const windows = this.eventWindows[stage];
+                if(windows) {
+                    // Emit the windows that are still open as if from an inner iterator, like flatMap
+                    this.innerIterators.push({ stage, iterator: windows.flush()[Symbol.iterator](), index: windows.lastIndex });
+                    continue;
+                }
+                next = this.takeBatch(stage);
+            } else {
+                const origin = inner ? inner.stage : base;
+                const key = inner ?? base;
+                const upstream = this.upstreamPulls.get(key) ?? this.pullUpstream(inner, base);
+                this.upstreamPulls.set(key, upstream);
+
+                const expired = await this.expiredBatchWithin(upstream, origin, end);
+                if(expired !== -1) {
+                    next = this.takeBatch(expired);
+                } else {
+                    this.upstreamPulls.delete(key);
+                    const pulled = await upstream;
+                    if(pulled.done) {
+                        if(inner) {
+                            const position = this.innerIterators.indexOf(inner);
+                            if(position !== -1) this.innerIterators.splice(position, 1);
+                        } else {
+                            this.endedAt[end] = base;
+                        }
+                        continue;
+                    }
+                    next = { value: pulled.value, index: pulled.index, start: origin + 1 };
+                }
+            }
+
+            const result = await this.runStages(next.value, next.index, next.start, end);
+
+            if(result.status === 'done') {
+                this.endedAt[end] = Math.max(ended ?? -1, result.stage);
+                continue;
+            }
+
+            if(result.status === 'skip') continue;
+
+            return { done: false, value: result.value, index: next.index };
+        }
+    }
+
+    /**
+     * Pulls the next value from the given inner iterator, or else from the concurrent stage at `base`,
+     * or from the source if `base` is -1.
+     */
+    private async pullUpstream(inner: InnerIterator | undefined, base: number): Promise<Pulled> {
+        if(inner) {
+            const innerResult = await inner.iterator.next();
+            return innerResult.done ? { done: true } : { done: false, value: innerResult.value, index: inner.index };
+        }
+        if(base !== -1) return this.pullConcurrent(base);
+
+        if(this.sourceDone) return { done: true };
+        const nextResult = await this.getNextElement();
+        if(nextResult.done) {
+            this.sourceDone = true;
+            return { done: true };
+        }
+        return { done: false, value: nextResult.value, index: this.index++ };
+    }
+
+    /**
+     * Waits for an upstream pull, unless the oldest bufferTime batch between `after` and `end` runs out of time first.
+     * Returns the position of that bufferTime stage, or -1 once the upstream pull has settled.
+     *
+     * @throws AbortError If the pipeline is aborted while waiting.
+     */
+    private async expiredBatchWithin(upstream: Promise<Pulled>, after: number, end: number): Promise<number> {
+        let stage = -1;
+        let expiresAt = Infinity;
+        for(let i = after + 1; i < end; i++) {
+            const method = this.methods[i];
+            const batch = this.batches[i];
+            if(method.kind === 'chunk' && method.maxWaitMs !== undefined && batch && batch.startedAt + method.maxWaitMs < expiresAt) {
+                stage = i;
+                expiresAt = batch.startedAt + method.maxWaitMs;
+            }
+        }
+        if(stage === -1) return -1;
+        if(expiresAt <= Date.now()) return stage;
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let unlink = () => {};
+        try {
+            return await new Promise<number>((resolve, reject) => {
+                timer = setTimeout(() => resolve(stage), expiresAt - Date.now());
+                unlink = linkSignal(this.abortController.signal, reason => reject(abortErrorFor(reason)));
+                upstream.then(() => resolve(-1), () => resolve(-1));
+            });
+        } finally {
+            clearTimeout(timer);
+            unlink();
+        }
+    }
+
+    /**
+     * Removes the partial batch of the given stage, ready to be run through the stages after it.
+     */
+    private takeBatch(stage: number) {
+        const batch = this.batches[stage]!;
+        this.batches[stage] = undefined;
+        return { value: batch.items, index: batch.index, start: stage + 1 };
+    }
+
+    /**
+     * Pulls the next result of a concurrent stage. The window is topped up to the stage's concurrency
+     * before waiting, so that many calls stay in flight as results are handed out.
+     *
+     * @throws The rejection reason of the callback call whose result is being emitted.
+     */
+    private async pullConcurrent(stage: number): Promise<Pulled> {
+        const method = this.methods[stage] as AsyncChainMethod;
+        const window = this.windows[stage] ??= { tasks: [], upstreamDone: false };
+
+        while(true) {
+            while(!window.upstreamDone && window.tasks.length < method.concurrency!) {
+                const pulled = await this.pull(stage);
+                if(pulled.done) {
+                    window.upstreamDone = true;
+                    break;
+                }
+                window.tasks.push(startTask(method, pulled.value, pulled.index, this.callbackController.signal));
+            }
+
+            if(window.tasks.length === 0) return { done: true };
+
+            const task = method.ordered
+                ? await window.tasks[0].settled
+                : await Promise.race(window.tasks.map(t => t.settled));
+            window.tasks.splice(window.tasks.indexOf(task), 1);
+
+            const outcome = task.outcome!;
+            if(outcome.status === 'rejected') throw outcome.reason;
+
+            if(method.kind === 'mapAsync') return { done: false, value: outcome.value, index: task.index };
+            if(outcome.value) return { done: false, value: task.input, index: task.index };
+        }
+    }
+
+    /**
+     * Returns the position of the last concurrent stage before `end`, or -1 if there is none.
+     */
+    private concurrentStageBefore(end: number) {
+        for(let i = end - 1; i >= 0; i--) {
+            if(isConcurrentStage(this.methods[i])) return i;
+        }
+        return -1;
+    }
+
+    /**
+     * Returns the deepest open inner iterator whose flatMap stage lies strictly between `after` and `end`.
+     */
+    private innerIteratorWithin(after: number, end: number) {
+        for(let i = this.innerIterators.length - 1; i >= 0; i--) {
+            const inner = this.innerIterators[i];
+            if(inner.stage > after && inner.stage < end) return inner;
+        }
+        return undefined;
+    }
+
+    /**
+     * Runs a value through the chained methods from `start` up to (but not including) `end`.
+     * A flatMap stage opens an inner iterator and skips, so that pull() resumes from it.
+     * A chunk or bufferTime stage collects values and skips until its batch is full, then passes the batch on.
+     * A window stage does the same with a window that advances by its step, and a groupAdjacent stage passes a batch on once the key changes.
+     * An event-time window stage opens an inner iterator over the windows its watermark closed, like flatMap.
+     */
+    private async runStages(value: any, index: number, start: number, end: number): Promise<StageResult> {
+        let opResult = value;
+
+        for(let i = start; i < end; i++) {
+            const method = this.methods[i];
+            const count = this.stageCounts[i] ?? 0;
+
+            if(method.kind === 'take' || method.kind === 'drop') {
+                this.stageCounts[i] = count + 1;
+                if(method.kind === 'drop' && count < method.limit) return { status: 'skip' };
+                continue;
+            }
+
+            if(method.kind === 'dropWhile' && count > 0) continue;
+
+            if(method.kind === 'rateLimit') {
+                await (this.tokenBuckets[i] ??= new TokenBucket(method.options)).acquire(this.abortController.signal);
+                continue;
+            }
+
+            if(method.kind === 'chunk') {
+                const batch = this.batches[i] ??= { items: [], index, startedAt: Date.now() };
+                batch.items.push(opResult);
+                if(batch.items.length < method.size) return { status: 'skip' };
+                this.batches[i] = undefined;
+                opResult = batch.items;
+                index = batch.index;
+                continue;
+            }
+
+            if(method.kind === 'groupAdjacent') {
+                const key = await this.executeChainedMethod(method, opResult, index);
+                const batch = this.batches[i];
+                if(batch && sameKey(batch.key, key)) {
+                    batch.items.push(opResult);
+                    return { status: 'skip' };
+                }
+                this.batches[i] = { items: [opResult], index, startedAt: Date.now(), key };
+                if(!batch) return { status: 'skip' };
+                opResult = batch.items;
+                index = batch.index;
+                continue;
+            }
+
+            if(method.kind === 'window') {
+                const buffer = this.windowBuffers[i] ??= { entries: new RingBuffer(method.size), skip: 0 };
+                if(buffer.skip > 0) {
+                    buffer.skip--;
+                    return { status: 'skip' };
+                }
+                buffer.entries.push({ value: opResult, index });
+                if(buffer.entries.length < method.size) return { status: 'skip' };
+                const entries = Array.from({ length: method.size }, (_, k) => buffer.entries.get(k));
+                for(let k = Math.min(method.step, method.size); k > 0; k--) buffer.entries.shift();
+                buffer.skip = Math.max(0, method.step - method.size);
+                opResult = entries.map(entry => entry.value);
+                index = entries[0].index;
+                continue;
+            }
+
+            if(method.kind === 'eventWindow') {
+                const closed = (this.eventWindows[i] ??= new EventWindowState(method.options)).add(opResult, index);
+                if(closed.length > 0) this.innerIterators.push({ stage: i, iterator: closed[Symbol.iterator](), index });
+                return { status: 'skip' };
+            }
+
+            if(method.kind === 'distinct') {
+                const key = method.fn(opResult, index);
+                if(!(this.seenKeys[i] ??= new SeenKeys(method.options)).add(key)) return { status: 'skip' };
+                continue;
+            }
+
+            if(method.kind === 'distinctUntilChanged') {
+                if(count > 0 && method.fn(this.accumulators[i], opResult)) return { status: 'skip' };
+                this.accumulators[i] = opResult;
+                this.stageCounts[i] = count + 1;
+                continue;
+            }
+
+            if(method.kind === 'scan') {
+                const acc = count === 0 ? method.initVal : this.accumulators[i];
+                opResult = this.executeScanMethod(method, opResult, index, acc);
+                this.accumulators[i] = opResult;
+                this.stageCounts[i] = count + 1;
+                continue;
+            }
+
+            const retVal = await this.executeChainedMethod(method as SyncChainMethod | AsyncChainMethod, opResult, index);
+
+            if(method.kind === 'map' || method.kind === 'mapAsync')
+                opResult = retVal
+
+            if((method.kind === 'filter' || method.kind === 'filterAsync') && !retVal)
+                return { status: 'skip' };
+
+            if(method.kind === 'takeWhile' && !retVal)
+                return { status: 'done', stage: i };
+
+            if(method.kind === 'dropWhile') {
+                if(retVal) return { status: 'skip' };
+                this.stageCounts[i] = 1;
+            }
+
+            if(method.kind === 'flatMap' || method.kind === 'flatMapAsync') {
+                this.innerIterators.push({ stage: i, iterator: getInnerIterator(retVal), index });
+                return { status: 'skip' };
+            }
+        }
+
+        return { status: 'emit', value: opResult };
+    }
+
+    /**
+     * Returns the position of the last take stage between `afterStage` and `end` that has let through as many values as its limit allows,
+     * meaning nothing pulled from that point on can reach `end`, or -1 if there is none.
+     */
+    private reachedLimit(afterStage: number, end: number) {
+        for(let i = end - 1; i > afterStage; i--) {
+            const method = this.methods[i];
+            if(method.kind === 'take' && (this.stageCounts[i] ?? 0) >= method.limit) return i;
+        }
+        return -1;
+    }
+
+    /**
+     * Returns the position of the first stage between `afterStage` and `end` that holds a partial batch or open
+     * event-time windows, or -1 if there is none.
+     */
+    private pendingBatchWithin(afterStage: number, end: number) {
+        for(let i = afterStage + 1; i < end; i++) {
+            if(this.batches[i] !== undefined || this.eventWindows[i]?.hasOpenWindows) return i;
+        }
+        return -1;
+    }
+
+    /**
+     * Closes every open inner iterator, innermost first.
+     */
+    private async closeInnerIterators() {
+        while(this.innerIterators.length > 0) {
+            await this.innerIterators.pop()!.iterator.return?.();
+        }
+    }
+
+    /**
+     * Marks the iterator as exhausted, closes the source iterator and returns the given value.
+     * The signal passed to async callbacks still in flight aborts, so they can stop work whose result is no longer needed.
+     */
+    async return(value?: any) {
+        if(!this.exhausted) {
+            this.exhausted = true;
+            clearTimeout(this.deadlineTimer);
+            this.unlinkSignal();
+            this.callbackController.abort(new AbortError('The pipeline was closed'));
+            this.windows = [];
+            this.batches = [];
+            this.windowBuffers = [];
+            this.eventWindows = [];
+            this.upstreamPulls.clear();
+            await this.closeInnerIterators();
+            await this.openedIterator?.return?.();
+        }
+
+        return { value, done: this.exhausted }
+    }
+
+    /**
+     * Marks the iterator as exhausted due to an error. The error is forwarded to the source iterator's throw()
+     * when it has one, otherwise the source is closed with return().
+     *
+     * @throws The forwarded error, if the source iterator does not handle it.
+     */
+    async throw(e: any) {
+        if(!this.exhausted) {
+            this.exhausted = true
+            clearTimeout(this.deadlineTimer);
+            this.unlinkSignal();
+            this.callbackController.abort(e);
+            this.windows = [];
+            this.batches = [];
+            this.windowBuffers = [];
+            this.eventWindows = [];
+            this.upstreamPulls.clear();
+            await this.closeInnerIterators();
+            const iterator = this.openedIterator;
+            if(iterator && typeof iterator.throw === 'function') {
+                const result = await iterator.throw(e);
+                if(!result.done) await iterator.return?.();
+            } else {
+                await iterator?.return?.();
+            }
+        }
+
+        return { done: this.exhausted, value: undefined}
+    }
+
+    /**
+     * Closes the pipeline and its source, so `await using` releases the source deterministically.
+     */
+    async [Symbol.asyncDispose]() {
+        await this.return();
+    }
+
+    /**
+     * Lazily maps each value using the provided callback (sync).
+     */
+    map<S>(cb: MapFunc<GetLastMethodType<Methods>[1],S>) {
+        return this.withMethod({
+            kind: 'map',
+            fn: cb
+        }) as unknown as LazyAsyncIterator<IterType,Push<Methods, MapFunc<GetLastMethodType<Methods>[1],S>>>
+    }
+
+    /**
+     * Lazily filters values using the provided predicate (sync).
+     */
+    filter(cb: FilterFunc<GetLastMethodType<Methods>[1]>) {
+        return this.withMethod({
+            kind: 'filter',
+            fn: cb
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods,FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily performs a side effect for each value using the provided callback (sync).
+     *
+     * Note: This is a pass-through, non-terminating operation. It can be used for observability (e.g., logging, debugging) within a pipeline. The iterator continues to yield values downstream.
+     */
+    forEach(cb: ForEachFunc<GetLastMethodType<Methods>[1]>) {
+        return this.withMethod({
+            kind: 'forEach',
+            fn: cb
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, ForEachFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily maps each value using the provided async callback.
+     *
+     * With `options.concurrency` greater than 1, up to that many calls are kept in flight as a sliding window,
+     * and results are emitted in source order (`ordered: true`, the default) or as they complete (`ordered: false`).
+     * The callback always receives the index of the element it was called with.
+     *
+     * With `options.timeout`, a call that runs longer than that many milliseconds rejects with a TimeoutError, which
+     * surfaces like any other rejection (e.g. in collectSettled), and the signal passed to the callback aborts.
+     *
+     * With `options.retry`, a failed call is retried with backoff. If it never succeeds, the element rejects with a
+     * RetryError listing every attempt.
+     *
+     * @throws Error If options.concurrency is not a positive integer, options.timeout is not a positive number, or options.retry is invalid.
+     */
+    mapAsync<S>(cb: MapAsyncFunc<GetLastMethodType<Methods>[1],S>, options?: AsyncStageOptions) {
+        return this.withMethod({
+            kind: 'mapAsync',
+            fn: cb,
+            ...resolveStageOptions('mapAsync', options)
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapAsyncFunc<GetLastMethodType<Methods>[1],S>>>
+    }
+
+    /**
+     * Lazily filters values using the provided async predicate.
+     *
+     * Accepts the same options as mapAsync; kept values are emitted in source order unless `ordered` is false.
+     *
+     * @throws Error If options.concurrency is not a positive integer, options.timeout is not a positive number, or options.retry is invalid.
+     */
+    filterAsync(cb: FilterAsyncFunc<GetLastMethodType<Methods>[1]>, options?: AsyncStageOptions) {
+        return this.withMethod({
+            kind: 'filterAsync',
+            fn: cb,
+            ...resolveStageOptions('filterAsync', options)
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FilterAsyncFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily performs a side effect for each value using the provided async callback.
+     *
+     * Note: This is a pass-through, non-terminating operation. It can be used for observability (e.g., logging, debugging) within a pipeline. The iterator continues to yield values downstream.
+     * Accepts the timeout and retry options of mapAsync.
+     *
+     * @throws Error If options.timeout is not a positive number, or options.retry is invalid.
+     */
+    forEachASync(cb: ForEachAsyncFunc<GetLastMethodType<Methods>[1]>, options?: Pick<AsyncStageOptions, 'timeout' | 'retry'>) {
+        return this.withMethod({
+            kind: 'forEachAsync',
+            fn: cb,
+            ...resolveStageOptions('forEachAsync', options)
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, ForEachAsyncFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily maps each value to an iterable or async iterable and yields its items one by one (sync callback).
+     * Inner items are pulled only as they are requested.
+     *
+     * @throws TypeError When iterated, if the callback returns something that is not an iterable or async iterable.
+     */
+    flatMap<S>(cb: FlatMapFunc<GetLastMethodType<Methods>[1],S>) {
+        return this.withMethod({
+            kind: 'flatMap',
+            fn: cb
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FlatMapFunc<GetLastMethodType<Methods>[1],S>>>
+    }
+
+    /**
+     * Lazily maps each value to an iterable or async iterable using the provided async callback and yields its items one by one.
+     * Inner items are pulled only as they are requested.
+     *
+     * @throws TypeError When iterated, if the callback resolves to something that is not an iterable or async iterable.
+     */
+    flatMapAsync<S>(cb: FlatMapAsyncFunc<GetLastMethodType<Methods>[1],S>) {
+        return this.withMethod({
+            kind: 'flatMapAsync',
+            fn: cb
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FlatMapAsyncFunc<GetLastMethodType<Methods>[1],S>>>
+    }
+
+    /**
+     * Lazily takes the first n values. Once n values have passed this stage, the pipeline
+     * stops pulling from the upstream iterator.
+     *
+     * @throws Error If n is negative or not a number.
+     */
+    take(n: number) {
+        if (typeof n !== 'number' || n < 0) throw new Error('take(n): n must be a non-negative number');
+        return this.withMethod({
+            kind: 'take',
+            limit: n
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily skips the first n values and passes through the rest.
+     *
+     * @throws Error If n is negative or not a number.
+     */
+    drop(n: number) {
+        if (typeof n !== 'number' || n < 0) throw new Error('drop(n): n must be a non-negative number');
+        return this.withMethod({
+            kind: 'drop',
+            limit: n
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily passes values through while the predicate returns true (sync). The first value that
+     * fails the predicate ends the pipeline.
+     */
+    takeWhile(predicate: FilterFunc<GetLastMethodType<Methods>[1]>) {
+        return this.withMethod({
+            kind: 'takeWhile',
+            fn: predicate
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily skips values while the predicate returns true (sync), then passes through the rest.
+     */
+    dropWhile(predicate: FilterFunc<GetLastMethodType<Methods>[1]>) {
+        return this.withMethod({
+            kind: 'dropWhile',
+            fn: predicate
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily paces values with a token bucket: on average at most `perInterval` values pass every `intervalMs`
+     * milliseconds, with bursts of up to `burst` (defaults to `perInterval`). Values are delayed, never dropped.
+     *
+     * Because next() calls are queued and concurrent stages pull from upstream one value at a time, the limit holds
+     * across every in-flight call of a downstream concurrent stage and across collect(concurrency).
+     *
+     * @throws Error If the options are invalid.
+     */
+    rateLimit(options: RateLimitOptions) {
+        return this.withMethod({
+            kind: 'rateLimit',
+            options: resolveRateLimitOptions('rateLimit(options)', options)
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily spaces values at least `ms` milliseconds apart. Values are delayed, never dropped.
+     *
+     * @throws Error If ms is not a positive number.
+     */
+    throttle(ms: number) {
+        if (!(typeof ms === 'number' && ms > 0)) throw new Error('throttle(ms): ms must be a positive number of milliseconds');
+        return this.withMethod({
+            kind: 'rateLimit',
+            options: resolveRateLimitOptions('throttle(ms)', { perInterval: 1, intervalMs: ms, burst: 1 })
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily groups values into arrays of `size` values. The last batch holds whatever is left once the
+     * upstream ends, so it may be shorter. Downstream callbacks receive the index of the batch's first value.
+     *
+     * @throws Error If size is not a positive integer.
+     */
+    chunk(size: number) {
+        if (!Number.isInteger(size) || size < 1) throw new Error('chunk(size): size must be a positive integer');
+        return this.withMethod({
+            kind: 'chunk',
+            size
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1][]>>>;
+    }
+
+    /**
+     * Lazily groups values into arrays like chunk(), but also emits a batch once `maxWaitMs` milliseconds have
+     * passed since its first value arrived, even if it holds fewer than `maxSize` values. A batch is only emitted
+     * while the pipeline is being pulled, and is never empty.
+     *
+     * @throws Error If maxSize is not a positive integer or maxWaitMs is not a positive number.
+     */
+    bufferTime(options: BufferTimeOptions) {
+        const { maxSize = Infinity, maxWaitMs } = options ?? {};
+        if (maxSize !== Infinity && !(Number.isInteger(maxSize) && maxSize >= 1))
+            throw new Error('bufferTime(options): maxSize must be a positive integer');
+        if (!(typeof maxWaitMs === 'number' && maxWaitMs > 0))
+            throw new Error('bufferTime(options): maxWaitMs must be a positive number of milliseconds');
+        return this.withMethod({
+            kind: 'chunk',
+            size: maxSize,
+            maxWaitMs
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1][]>>>;
+    }
+
+    /**
+     * Lazily emits windows of the last `size` values, starting a new window every `step` values (defaults to 1).
+     * A step smaller than the size gives overlapping sliding windows, a step equal to it gives tumbling windows, and a
+     * larger step skips values between windows. Only full windows are emitted, and at most `size` values are buffered.
+     * Downstream callbacks receive the index of the window's first value.
+     *
+     * @throws Error If size or step is not a positive integer.
+     */
+    window(size: number, step: number = 1) {
+        if (!Number.isInteger(size) || size < 1) throw new Error('window(size, step): size must be a positive integer');
+        if (!Number.isInteger(step) || step < 1) throw new Error('window(size, step): step must be a positive integer');
+        return this.withMethod({
+            kind: 'window',
+            size,
+            step
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1][]>>>;
+    }
+
+    /**
+     * Lazily emits each value paired with the one before it, as `[previous, current]`. The first value only starts the first pair.
+     */
+    pairwise() {
+        return this.window(2) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],[GetLastMethodType<Methods>[1], GetLastMethodType<Methods>[1]]>>>;
+    }
+
+    /**
+     * Lazily groups runs of consecutive values that share a key (compared like Map keys) into arrays, in a single pass.
+     * Only the current run is buffered, and the last run is emitted once the upstream ends.
+     * Downstream callbacks receive the index of the run's first value.
+     */
+    groupAdjacent<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>) {
+        return this.withMethod({
+            kind: 'groupAdjacent',
+            fn: keyFn
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1][]>>>;
+    }
+
+    /**
+     * Alias for groupAdjacent.
+     */
+    chunkBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>) {
+        return this.groupAdjacent(keyFn);
+    }
+
+    /**
+     * Lazily drops values that were already let through (compared like Map keys).
+     * Every value is remembered for the rest of the run unless `maxKeys` or `ttl` bounds how many are kept and for how long.
+     *
+     * @throws Error If maxKeys is not a positive integer or ttl is not a positive number.
+     */
+    distinct(options: AsyncDistinctOptions = {}) {
+        return this.withMethod({
+            kind: 'distinct',
+            fn: (x: any) => x,
+            options: resolveDistinctOptions('distinct(options)', options)
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods,FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily drops values whose key (compared like Map keys) was already let through.
+     * Every key is remembered for the rest of the run unless `maxKeys` or `ttl` bounds how many are kept and for how long.
+     *
+     * @throws Error If maxKeys is not a positive integer or ttl is not a positive number.
+     */
+    distinctBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>, options: AsyncDistinctOptions = {}) {
+        return this.withMethod({
+            kind: 'distinct',
+            fn: keyFn,
+            options: resolveDistinctOptions('distinctBy(keyFn, options)', options)
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods,FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily drops values equal to the last value let through, so runs of repeated states collapse into one.
+     * `equals` defaults to comparing like Map keys.
+     */
+    distinctUntilChanged(equals: (previous: GetLastMethodType<Methods>[1], current: GetLastMethodType<Methods>[1]) => boolean = sameKey) {
+        return this.withMethod({
+            kind: 'distinctUntilChanged',
+            fn: equals
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods,FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Joins this pipeline with another sync or async input, both sorted by key, in a single pass, yielding
+     * `[value, other]` for every pair of values whose keys compare equal. Only the other input's values sharing the
+     * current key are buffered.
+     *
+     * @throws TypeError If key, otherKey or compare is not a function.
+     * @throws Error If the other input is not an iterator or iterable (sync or async).
+     * @throws SortOrderError When either input yields a key that sorts before the previous one.
+     */
+    innerJoin<U, K>(other: AsyncSource<U>, options: SortedJoinOptions<GetLastMethodType<Methods>[1], U, K>) {
+        return this.sortedJoin<[GetLastMethodType<Methods>[1], U]>('innerJoin(other, options)', 'inner', other, options);
+    }
+
+    /**
+     * Like innerJoin, but also yields `[value, undefined]` for values of this pipeline that match nothing in the other input.
+     */
+    leftJoin<U, K>(other: AsyncSource<U>, options: SortedJoinOptions<GetLastMethodType<Methods>[1], U, K>) {
+        return this.sortedJoin<[GetLastMethodType<Methods>[1], U | undefined]>('leftJoin(other, options)', 'left', other, options);
+    }
+
+    /**
+     * Like innerJoin, but also yields `[value, undefined]` and `[undefined, other]` for values of either input that
+     * match nothing on the other side, in key order.
+     */
+    fullOuterJoin<U, K>(other: AsyncSource<U>, options: SortedJoinOptions<GetLastMethodType<Methods>[1], U, K>) {
+        return this.sortedJoin<[GetLastMethodType<Methods>[1] | undefined, U | undefined]>('fullOuterJoin(other, options)', 'fullOuter', other, options);
+    }
+
+    /**
+     * Diffs this pipeline, as the data before, against `other`, as the data after, yielding a record per key that says
+     * whether it was added, removed, changed or unchanged. By default both inputs must be sorted by key and are diffed in
+     * one pass holding one value per side; `sorted: false` accepts any order by indexing the smaller input. Keys are
+     * expected to be unique on each side.
+     *
+     * @throws TypeError If keyFn, equals or compare is not a function.
+     * @throws Error If the other input is not an iterator or iterable (sync or async).
+     * @throws SortOrderError When a sorted input yields a key that sorts before the previous one.
+     */
+    diffBy<K>(other: AsyncSource<GetLastMethodType<Methods>[1]>, keyFn: (x: GetLastMethodType<Methods>[1]) => K, options: DiffOptions<GetLastMethodType<Methods>[1], K> = {}) {
+        const method = 'diffBy(other, keyFn, options)';
+        const resolved = resolveDiffOptions(method, keyFn, options);
+        assertCombinable(method, [other], true);
+        return new LazyAsyncIterator<DiffRecord<GetLastMethodType<Methods>[1], K>>(diffAsyncIterables(method, this, other, resolved));
+    }
+
+    private sortedJoin<P>(method: string, mode: JoinMode, other: unknown, options: SortedJoinOptions<any, any, any>) {
+        const resolved = resolveSortedJoinOptions(method, options);
+        assertCombinable(method, [other], true);
+        return new LazyAsyncIterator<P>(sortedJoinAsyncIterables(method, mode, this, other, resolved));
+    }
+
+    /**
+     * Lazily groups values by key into back-to-back event-time windows of `size` time units, as given by the
+     * `timestamp` extractor rather than the clock. Each window is emitted once the watermark, which trails the largest
+     * timestamp seen by `allowedLateness`, passes its end; windows still open when the upstream ends are emitted then.
+     * Values that arrive after every window they belong to was emitted are dropped.
+     *
+     * @throws TypeError If timestamp or key is not a function.
+     * @throws Error If size is not a positive number or allowedLateness is negative.
+     */
+    tumblingWindow<K = undefined>(options: TumblingWindowOptions<GetLastMethodType<Methods>[1], K>) {
+        return this.withMethod({
+            kind: 'eventWindow',
+            options: resolveEventWindowOptions('tumblingWindow(options)', options, { kind: 'tumbling', size: options?.size })
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1], EventWindow<GetLastMethodType<Methods>[1], K>>>>;
+    }
+
+    /**
+     * Lazily groups values by key into event-time windows of `size` time units that start every `slide` time units,
+     * so a value can belong to several windows. Windows are emitted as the watermark advances, like tumblingWindow().
+     *
+     * @throws TypeError If timestamp or key is not a function.
+     * @throws Error If size or slide is not a positive number or allowedLateness is negative.
+     */
+    slidingWindow<K = undefined>(options: SlidingWindowOptions<GetLastMethodType<Methods>[1], K>) {
+        return this.withMethod({
+            kind: 'eventWindow',
+            options: resolveEventWindowOptions('slidingWindow(options)', options, { kind: 'sliding', size: options?.size, slide: options?.slide })
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1], EventWindow<GetLastMethodType<Methods>[1], K>>>>;
+    }
+
+    /**
+     * Lazily groups values by key into sessions: a session spans from its first timestamp until `gap` time units after
+     * its last one, and sessions that come to overlap are merged. A session is emitted once the watermark passes its end,
+     * like tumblingWindow().
+     *
+     * @throws TypeError If timestamp or key is not a function.
+     * @throws Error If gap is not a positive number or allowedLateness is negative.
+     */
+    sessionWindow<K = undefined>(options: SessionWindowOptions<GetLastMethodType<Methods>[1], K>) {
+        return this.withMethod({
+            kind: 'eventWindow',
+            options: resolveEventWindowOptions('sessionWindow(options)', options, { kind: 'session', gap: options?.gap })
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1], EventWindow<GetLastMethodType<Methods>[1], K>>>>;
+    }
+
+    /**
+     * Lazily folds values with the provided reducer (sync) and emits each running accumulation downstream.
+     */
+    scan<S>(cb: ReduceFunc<GetLastMethodType<Methods>[1],S>, initVal: S) {
+        return this.withMethod({
+            kind: 'scan',
+            fn: cb,
+            initVal
+        }) as unknown as LazyAsyncIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],S>>>
+    }
+
+    /**
+     * Reduces values to a single result using the provided reducer (sync) and initial value.
+     * Returns a ReduceExecutor; the pipeline is folded one element at a time when execute() is called.
+     */
+    reduce<S>(cb: ReduceFunc<GetLastMethodType<Methods>[1],S>, initVal: S) {
+        return new ReduceExecutor<GetLastMethodType<Methods>[1], S>(this, cb, initVal);
+    }
+
+    /**
+     * Reduces values to a single result using the provided async reducer and initial value.
+     * Each call to the reducer is awaited before the next element is pulled.
+     */
+    reduceAsync<S>(cb: ReduceAsyncFunc<GetLastMethodType<Methods>[1],S>, initVal: S) {
+        return new ReduceExecutor<GetLastMethodType<Methods>[1], S>(this, cb, initVal);
     }
 
     /**
-     * Creates a LazyAsyncIterator from an iterator, async iterator, iterable, or async iterable.
+     * Requests up to `concurrency` next() calls at once and returns all settled results.
+     * The calls are queued by next(), so they never pull past the end of the source.
      *
-     * @throws Error If the input is null, undefined, or not an iterator/iterable.
+     * @throws AbortError If the pipeline was aborted, so that settled terminals stop instead of collecting the rejection.
+     * @throws TimeoutError If the pipeline deadline ran out, for the same reason.
      */
-    static from<T>(input: Iterator<T> | AsyncIterator<T> | Iterable<T> | AsyncIterable<T>): LazyAsyncIterator<T> {
-        if (input === undefined || input === null) {
-            throw new Error("LazyAsyncIterator cannot be created from null or undefined");
-        }
-        // If it's an async iterator
-        if (typeof input === 'object' && 'next' in input && typeof input.next === 'function' && (Symbol.asyncIterator in input)) {
-            return new LazyAsyncIterator<T>(input as AsyncIterator<T>);
-        }
-        // If it's a sync iterator
-        if (typeof input === 'object' && 'next' in input && typeof input.next === 'function' && (Symbol.iterator in input)) {
-            return new LazyAsyncIterator<T>(input as Iterator<T>);
-        }
-        // If it's an async iterable
-        if (typeof input === 'object' && Symbol.asyncIterator in input) {
-            const iterator = (input as AsyncIterable<T>)[Symbol.asyncIterator]();
-            return new LazyAsyncIterator<T>(iterator);
+    private async _batchNext(concurrency: number = 1): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
+        const promises: Promise<IteratorResult<GetLastMethodType<Methods>[1]>>[] = [];
+        for (let i = 0; i < concurrency; i++) {
+            promises.push(this.next());
         }
-        // If it's a sync iterable
-        if (typeof input === 'object' && Symbol.iterator in input) {
-            const iterator = (input as Iterable<T>)[Symbol.iterator]();
-            return new LazyAsyncIterator<T>(iterator);
+        const results = await Promise.allSettled(promises);
+        if (this.abortController.signal.aborted) {
+            const aborted = results.find(res => res.status === 'rejected');
+            throw aborted ? (aborted as PromiseRejectedResult).reason : abortErrorFor(this.abortController.signal.reason);
         }
-        throw new Error("Couldn't create LazyAsyncIterator. No valid iterator or iterable provided.");
-    }
-
-    private async getNextElement() {
-        if(Symbol.iterator in this.iterator || Symbol.asyncIterator in this.iterator)
-            return this.iterator.next()
-        return { done: true, value: undefined}
+        return results;
     }
 
-    private async executeChainedMethod<T>(method: SyncChainMethod | AsyncChainMethod, value: T, index: number) {
-        return method.fn(value, index)
+    /**
+     * Runs a terminal operation, aborting the pipeline if the given signal aborts before it finishes.
+     */
+    private async withTerminalSignal<R>(signal: AbortSignal | undefined, run: () => Promise<R>): Promise<R> {
+        const unlink = linkSignal(signal, reason => this.abort(reason));
+        try {
+            return await run();
+        } finally {
+            unlink();
+        }
     }
 
-    private executeReduceMethod<T>(method: ReduceMethod, value: T, index: number, initVal?: any) {
-        return method.fn(initVal, value, index)
+    /**
+     * Creates multiple independent async iterators (tees) from this iterator.
+     * `options` bounds the buffer kept for slower branches; see createAsyncTeeIterators. The branches share this pipeline's signal,
+     * and each keeps the `inspect()` method reporting the buffer depth and the lag of every branch.
+     *
+     * @throws Error If count is not a positive integer, or the options are invalid.
+     */
+    tee(count: number, options?: TeeOptions) {
+        return createAsyncTeeIterators<GetLastMethodType<Methods>[1]>(this, count, options)
+            .map(v => Object.assign(LazyAsyncIterator.from(v, { signal: this.signal }), { inspect: v.inspect }))
     }
 
-    [Symbol.asyncIterator]() {
-        return this
-    }
-    
     /**
-     * Returns the next value in the iterator, applying all chained methods (sync and async).
+     * Returns all values, throws on error, stops at first done. Accepts a concurrency number or TerminalOptions.
+     * The pipeline is closed when it throws.
      *
-     * @throws Error If the iterator is already exhausted.
+     * @throws Error If an error occurs in the pipeline.
+     * @throws AbortError If the pipeline or options.signal is aborted.
      */
-    async next(): Promise<IteratorResult<GetLastMethodType<Methods>[1]>> {
-        if(this.exhausted) return { done: true, value: undefined };
-
-        while(true) {
-            const nextResult = await this.getNextElement();
-
-            if(nextResult.done) {
-                this.exhausted = true;
-                return { done: true, value: undefined }
-            }
-
-            if(this.methods.length === 0) return { done: false, value: nextResult.value } as { done: false, value: GetLastMethodType<Methods>[1]}; 
-
-            let opResult = nextResult.value;
-            let filterFail = false;
-
-            for(const method of this.methods) {
-                let retVal;
-                if(method.kind !== "reduce") {
-                    retVal = await this.executeChainedMethod(method, opResult, this.index)
-                }
-                else {
-                    this.executeReduceMethod(method, opResult, this.index, method.initVal)
+    async collect(options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1][]> {
+        const { concurrency, signal } = resolveTerminalOptions(options);
+        return this.withTerminalSignal(signal, async () => {
+            const collected: GetLastMethodType<Methods>[1][] = [];
+            let finished = false;
+            try {
+                while (true) {
+                    const results = await this._batchNext(concurrency);
+                    for (const res of results) {
+                        if (res.status === 'fulfilled') {
+                            if (res.value.done) {
+                                finished = true;
+                                return collected;
+                            }
+                            collected.push(res.value.value);
+                        } else {
+                            throw res.reason;
+                        }
+                    }
                 }
+            } finally {
+                if (!finished) await this.return();
+            }
+        });
+    }
 
-                if(method.kind === 'map' || method.kind === 'mapAsync')
-                    opResult = retVal
+    async toArray(options?: number | TerminalOptions) {
+        return this.collect(options)
+    }
 
-                if((method.kind === 'filter' || method.kind === 'filterAsync') && !retVal) {
-                    filterFail = true
-                    break;
+    /**
+     * Feeds every value to `step` as it arrives, without collecting the values first, and returns `acc`.
+     * The pipeline is closed if it or `step` throws.
+     *
+     * @throws Error If an error occurs in the pipeline.
+     * @throws AbortError If the pipeline or options.signal is aborted.
+     */
+    private async fold<S>(options: number | TerminalOptions | undefined, acc: S, step: (acc: S, value: GetLastMethodType<Methods>[1], idx: number) => void): Promise<S> {
+        const { concurrency, signal } = resolveTerminalOptions(options);
+        return this.withTerminalSignal(signal, async () => {
+            let idx = 0;
+            let finished = false;
+            try {
+                while (true) {
+                    const results = await this._batchNext(concurrency);
+                    for (const res of results) {
+                        if (res.status === 'rejected') throw res.reason;
+                        if (res.value.done) {
+                            finished = true;
+                            return acc;
+                        }
+                        step(acc, res.value.value, idx++);
+                    }
                 }
+            } finally {
+                if (!finished) await this.return();
             }
-
-            this.index++;
-
-            if(filterFail) continue;
-
-            return { done: false, value: opResult } as { done: false, value: GetLastMethodType<Methods>[1]}
-        }
+        });
     }
 
     /**
-     * Marks the iterator as exhausted and returns the given value.
+     * Groups values into a Map from each key to the values with that key, in order. Accepts a concurrency number or TerminalOptions.
      */
-    async return(value: any) {
-        if(!this.exhausted) {
-            this.exhausted = true;
-        }
-
-        return { value, done: this.exhausted }
+    async groupBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>, options?: number | TerminalOptions): Promise<Map<K, GetLastMethodType<Methods>[1][]>> {
+        return this.fold(options, new Map<K, GetLastMethodType<Methods>[1][]>(), (groups, value, idx) => {
+            const key = keyFn(value, idx);
+            const group = groups.get(key);
+            if (group) group.push(value);
+            else groups.set(key, [value]);
+        });
     }
 
     /**
-     * Marks the iterator as exhausted due to an error.
+     * Counts values per key into a Map. Accepts a concurrency number or TerminalOptions.
      */
-    async throw(e: any) {
-        if(!this.exhausted) {
-            this.exhausted = true
-        }
-
-        return { done: this.exhausted, value: undefined}
+    async countBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>, options?: number | TerminalOptions): Promise<Map<K, number>> {
+        return this.fold(options, new Map<K, number>(), (counts, value, idx) => {
+            const key = keyFn(value, idx);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        });
     }
 
     /**
-     * Lazily maps each value using the provided callback (sync).
+     * Splits values into those that pass the predicate and those that fail it, returned as `[pass, fail]`.
+     * Accepts a concurrency number or TerminalOptions.
      */
-    map<S>(cb: MapFunc<GetLastMethodType<Methods>[1],S>) {
-        this.methods.push({
-            kind: 'map',
-            fn: cb
+    async partition<S extends GetLastMethodType<Methods>[1]>(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => x is S, options?: number | TerminalOptions): Promise<[S[], Exclude<GetLastMethodType<Methods>[1], S>[]]>;
+    async partition(predicate: FilterFunc<GetLastMethodType<Methods>[1]>, options?: number | TerminalOptions): Promise<[GetLastMethodType<Methods>[1][], GetLastMethodType<Methods>[1][]]>;
+    async partition(predicate: FilterFunc<GetLastMethodType<Methods>[1]>, options?: number | TerminalOptions): Promise<[GetLastMethodType<Methods>[1][], GetLastMethodType<Methods>[1][]]> {
+        return this.fold(options, [[], []] as [GetLastMethodType<Methods>[1][], GetLastMethodType<Methods>[1][]], (parts, value, idx) => {
+            parts[predicate(value, idx) ? 0 : 1].push(value);
         });
+    }
 
-        return this as unknown as LazyAsyncIterator<IterType,Push<Methods, MapFunc<GetLastMethodType<Methods>[1],S>>>
+    /**
+     * Collects [key, value] entries into a Map. Later entries overwrite earlier ones with the same key.
+     * Accepts a concurrency number or TerminalOptions.
+     *
+     * @throws TypeError If a value is not an entry.
+     */
+    async toMap(options?: number | TerminalOptions): Promise<Map<EntryKey<GetLastMethodType<Methods>[1]>, EntryValue<GetLastMethodType<Methods>[1]>>> {
+        return this.fold(options, new Map(), (map, value) => {
+            const [key, val] = toEntry('toMap()', value);
+            map.set(key, val);
+        });
     }
 
     /**
-     * Lazily filters values using the provided predicate (sync).
+     * Collects values into a Set, dropping duplicates. Accepts a concurrency number or TerminalOptions.
      */
-    filter(cb: FilterFunc<GetLastMethodType<Methods>[1]>) {
-        this.methods.push({
-            kind: 'filter',
-            fn: cb
+    async toSet(options?: number | TerminalOptions): Promise<Set<GetLastMethodType<Methods>[1]>> {
+        return this.fold(options, new Set<GetLastMethodType<Methods>[1]>(), (set, value) => {
+            set.add(value);
         });
+    }
 
-        return this as unknown as LazyAsyncIterator<IterType, Push<Methods,FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    /**
+     * Collects [key, value] entries into a plain object, like Object.fromEntries. Later entries overwrite earlier ones.
+     * Accepts a concurrency number or TerminalOptions.
+     *
+     * @throws TypeError If a value is not an entry.
+     */
+    async toObject(options?: number | TerminalOptions): Promise<Record<EntryKey<GetLastMethodType<Methods>[1]> & PropertyKey, EntryValue<GetLastMethodType<Methods>[1]>>> {
+        return this.fold(options, {} as Record<PropertyKey, any>, (obj, value) => {
+            const [key, val] = toEntry('toObject()', value);
+            obj[key] = val;
+        });
     }
 
     /**
-     * Lazily performs a side effect for each value using the provided callback (sync).
+     * Returns the k largest values according to `compare` (defaults to `<` and `>`), largest first.
+     * Only k values are held at a time, in a heap; between values that compare equal, earlier ones are kept.
+     * Accepts a concurrency number or TerminalOptions.
      *
-     * Note: This is a pass-through, non-terminating operation. It can be used for observability (e.g., logging, debugging) within a pipeline. The iterator continues to yield values downstream.
+     * @throws Error If k is not a non-negative integer.
      */
-    forEach(cb: ForEachFunc<GetLastMethodType<Methods>[1]>) {
-        this.methods.push({
-            kind: 'forEach',
-            fn: cb
+    async topK(k: number, compare: (a: GetLastMethodType<Methods>[1], b: GetLastMethodType<Methods>[1]) => number = naturalOrder, options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1][]> {
+        assertTopK(k);
+        const top = await this.fold(options, new TopK<GetLastMethodType<Methods>[1]>(k, compare), (top, value) => {
+            top.add(value);
         });
+        return top.result();
+    }
 
-        return this as unknown as LazyAsyncIterator<IterType, Push<Methods, ForEachFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    /**
+     * Sorts the values stably by `compare` into a new pipeline, without holding more than `maxInMemory` of them at a
+     * time. Larger inputs are sorted in runs that are spilled to temporary files and lazily merged back; the files are
+     * removed once the sorted pipeline finishes or is closed. Nothing is pulled until the sorted pipeline is.
+     *
+     * @throws TypeError If compare, serialize or deserialize is not a function.
+     * @throws Error If maxInMemory is not a positive integer.
+     */
+    sortBy(compare: (a: GetLastMethodType<Methods>[1], b: GetLastMethodType<Methods>[1]) => number, options: SortByOptions<GetLastMethodType<Methods>[1]> = {}) {
+        const resolved = resolveSortByOptions(compare, options);
+        return new LazyAsyncIterator<GetLastMethodType<Methods>[1]>(externalSortIterable(this, compare, resolved));
     }
 
     /**
-     * Lazily maps each value using the provided async callback.
+     * Pulls values until `visit` resolves to true and reports whether it did. The pipeline is closed when the search
+     * stops early or `visit` throws.
      */
-    mapAsync<S>(cb: MapAsyncFunc<GetLastMethodType<Methods>[1],S>) {
-        this.methods.push({
-            kind: 'mapAsync',
-            fn: cb
+    private async search(options: number | TerminalOptions | undefined, visit: (value: GetLastMethodType<Methods>[1], idx: number) => boolean | Promise<boolean>): Promise<boolean> {
+        const { concurrency, signal } = resolveTerminalOptions(options);
+        return this.withTerminalSignal(signal, async () => {
+            let idx = 0;
+            let finished = false;
+            try {
+                while (true) {
+                    const results = await this._batchNext(concurrency);
+                    for (const res of results) {
+                        if (res.status === 'rejected') throw res.reason;
+                        if (res.value.done) {
+                            finished = true;
+                            return false;
+                        }
+                        if (await visit(res.value.value, idx++)) return true;
+                    }
+                }
+            } finally {
+                if (!finished) await this.return();
+            }
         });
+    }
 
-        return this as unknown as LazyAsyncIterator<IterType, Push<Methods, MapAsyncFunc<GetLastMethodType<Methods>[1],S>>>
+    /**
+     * Resolves with the first value that passes the predicate, or undefined if none does. The predicate may be async.
+     * Stops pulling at the first match and closes the pipeline. Accepts a concurrency number or TerminalOptions.
+     */
+    async find<S extends GetLastMethodType<Methods>[1]>(pred: (x: GetLastMethodType<Methods>[1], idx: number, signal: AbortSignal) => x is S, options?: number | TerminalOptions): Promise<S | undefined>;
+    async find(pred: PredicateFunc<GetLastMethodType<Methods>[1]>, options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1] | undefined>;
+    async find(pred: PredicateFunc<GetLastMethodType<Methods>[1]>, options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1] | undefined> {
+        let found: GetLastMethodType<Methods>[1] | undefined;
+        await this.search(options, async (value, idx) => {
+            if (!await pred(value, idx, this.callbackController.signal)) return false;
+            found = value;
+            return true;
+        });
+        return found;
     }
 
     /**
-     * Lazily filters values using the provided async predicate.
+     * Resolves with the position of the first value that passes the predicate, or -1 if none does, which tells a match
+     * of undefined apart from no match. The predicate may be async. Stops pulling at the first match and closes the
+     * pipeline. Accepts a concurrency number or TerminalOptions.
      */
-    filterAsync(cb: FilterAsyncFunc<GetLastMethodType<Methods>[1]>) {
-        this.methods.push({
-            kind: 'filterAsync',
-            fn: cb
+    async findIndex(pred: PredicateFunc<GetLastMethodType<Methods>[1]>, options?: number | TerminalOptions): Promise<number> {
+        let found = -1;
+        await this.search(options, async (value, idx) => {
+            if (!await pred(value, idx, this.callbackController.signal)) return false;
+            found = idx;
+            return true;
         });
+        return found;
+    }
 
-        return this as unknown as LazyAsyncIterator<IterType, Push<Methods, FilterAsyncFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    /**
+     * Resolves with true if any value passes the predicate, which may be async. Stops pulling at the first match and
+     * closes the pipeline. Accepts a concurrency number or TerminalOptions.
+     */
+    async some(pred: PredicateFunc<GetLastMethodType<Methods>[1]>, options?: number | TerminalOptions): Promise<boolean> {
+        return this.search(options, async (value, idx) => !!await pred(value, idx, this.callbackController.signal));
     }
 
     /**
-     * Lazily performs a side effect for each value using the provided async callback.
-     *
-     * Note: This is a pass-through, non-terminating operation. It can be used for observability (e.g., logging, debugging) within a pipeline. The iterator continues to yield values downstream.
+     * Resolves with true if every value passes the predicate (including when there are none), which may be async.
+     * Stops pulling at the first value that fails and closes the pipeline. Accepts a concurrency number or TerminalOptions.
      */
-    forEachASync(cb: ForEachAsyncFunc<GetLastMethodType<Methods>[1]>) {
-        this.methods.push({
-            kind: 'forEachAsync',
-            fn: cb
-        });
+    async every(pred: PredicateFunc<GetLastMethodType<Methods>[1]>, options?: number | TerminalOptions): Promise<boolean> {
+        return !await this.search(options, async (value, idx) => !await pred(value, idx, this.callbackController.signal));
+    }
 
-        return this as unknown as LazyAsyncIterator<IterType, Push<Methods, ForEachAsyncFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    /**
+     * Resolves with the first value, or undefined if there is none. Stops pulling once it has one and closes the pipeline.
+     * Accepts a concurrency number or TerminalOptions.
+     */
+    async first(options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1] | undefined> {
+        return this.find(() => true, options);
     }
 
     /**
-     * Lazily reduces values to a single result using the provided reducer and initial value (sync).
+     * Resolves with the last value, or undefined if there is none. Pulls every value, holding only the latest.
+     * Accepts a concurrency number or TerminalOptions.
      */
-    reduce<S>(cb: ReduceFunc<GetLastMethodType<Methods>[1],S>, initVal: S) {
-        this.methods.push({
-            fn: cb,
-            kind: 'reduce',
-            initVal
-        })
+    async last(options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1] | undefined> {
+        const last = await this.fold(options, { value: undefined as GetLastMethodType<Methods>[1] | undefined }, (acc, value) => {
+            acc.value = value;
+        });
+        return last.value;
+    }
 
-        const lazyIterator = this as unknown as LazyAsyncIterator<IterType, Push<Methods, ReduceFunc<GetLastMethodType<Methods>[1],S>>>
+    /**
+     * Resolves with true if any value equals the given one (compared like Map keys, so NaN matches NaN).
+     * Stops pulling at the first match and closes the pipeline. Accepts a concurrency number or TerminalOptions.
+     */
+    async includes(value: GetLastMethodType<Methods>[1], options?: number | TerminalOptions): Promise<boolean> {
+        return this.search(options, elem => sameKey(elem, value));
+    }
 
-        const reduceExec = new ReduceExecutor(lazyIterator);
+    /**
+     * Counts the values, or only those that pass the predicate when one is given; the predicate may be async.
+     * Pulls every value. Accepts a concurrency number or TerminalOptions.
+     */
+    async count(pred?: PredicateFunc<GetLastMethodType<Methods>[1]>, options?: number | TerminalOptions): Promise<number> {
+        let n = 0;
+        await this.search(options, async (value, idx) => {
+            if (!pred || await pred(value, idx, this.callbackController.signal)) n++;
+            return false;
+        });
+        return n;
+    }
 
-        return reduceExec;
+    /**
+     * Resolves with true if the pipeline yields no values. Stops pulling once it has one and closes the pipeline.
+     * Accepts a concurrency number or TerminalOptions.
+     */
+    async isEmpty(options?: number | TerminalOptions): Promise<boolean> {
+        return !await this.search(options, () => true);
     }
 
     /**
-     * Executes up to `concurrency` next() calls in parallel and returns all settled results.
+     * Resolves with the sum of the values, or of what `fn` maps them to. Numbers are added with compensated (Neumaier)
+     * summation, so rounding errors do not build up over long streams; bigints are summed exactly into a bigint.
+     * Resolves with 0 when there are no values. Accepts a concurrency number or TerminalOptions.
      *
-     * @throws Error If concurrency is not a positive integer.
+     * @throws TypeError If a value is neither a number nor a bigint, or numbers and bigints are mixed.
      */
-    private async _batchNext(concurrency: number): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
-        const promises: Promise<IteratorResult<GetLastMethodType<Methods>[1]>>[] = [];
-        for (let i = 0; i < concurrency; i++) {
-            promises.push(this.next());
-        }
-        return Promise.allSettled(promises);
+    async sum(fn?: undefined, options?: number | TerminalOptions): Promise<Summed<GetLastMethodType<Methods>[1]>>;
+    async sum<N extends number | bigint>(fn: MapFunc<GetLastMethodType<Methods>[1], N>, options?: number | TerminalOptions): Promise<Summed<N>>;
+    async sum(fn?: MapFunc<GetLastMethodType<Methods>[1], number | bigint>, options?: number | TerminalOptions): Promise<number | bigint> {
+        const summation = await this.fold(options, new Summation('sum()'), (acc, value, idx) => {
+            acc.add(fn ? fn(value, idx) : value);
+        });
+        return summation.result;
     }
 
     /**
-     * Creates multiple independent async iterators (tees) from this iterator.
+     * Resolves with the mean of the values, or of what `fn` maps them to, from their compensated sum. Resolves with NaN
+     * when there are no values. Accepts a concurrency number or TerminalOptions.
      *
-     * @throws Error If count is not a positive integer.
+     * @throws TypeError If a value is not a number.
      */
-    tee(count: number) {
-        return createAsyncTeeIterators<GetLastMethodType<Methods>[1]>(this, count).map(v => LazyAsyncIterator.from(v))
+    async average(fn?: MapFunc<GetLastMethodType<Methods>[1], number>, options?: number | TerminalOptions): Promise<number> {
+        const stats = await this.fold(options, new RunningStats('average()'), (acc, value, idx) => {
+            acc.add(fn ? fn(value, idx) : value);
+        });
+        return stats.average;
     }
 
     /**
-     * Returns all values, throws on error, stops at first done. Supports concurrency.
+     * Resolves with the count, sum, mean, population variance, standard deviation, minimum and maximum of the values,
+     * or of what `fn` maps them to, in one pass. The variance uses Welford's algorithm, which stays accurate when the
+     * values are large compared to their spread. Accepts a concurrency number or TerminalOptions.
      *
-     * @throws Error If an error occurs in the pipeline.
+     * @throws TypeError If a value is not a number.
      */
-    async collect(concurrency: number = 1): Promise<GetLastMethodType<Methods>[1][]> {
-        const collected: GetLastMethodType<Methods>[1][] = [];
-        while (true) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if (res.status === 'fulfilled') {
-                    if (res.value.done) return collected;
-                    collected.push(res.value.value);
-                } else {
-                    throw res.reason;
-                }
-            }
-        }
+    async stats(fn?: MapFunc<GetLastMethodType<Methods>[1], number>, options?: number | TerminalOptions): Promise<Stats> {
+        const stats = await this.fold(options, new RunningStats('stats()'), (acc, value, idx) => {
+            acc.add(fn ? fn(value, idx) : value);
+        });
+        return stats.result;
     }
 
-    async toArray() {
-        return this.collect()
+    /**
+     * Resolves with the smallest value, compared with `<` and `>`, or undefined if there is none.
+     * Accepts a concurrency number or TerminalOptions.
+     */
+    async min(options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1] | undefined> {
+        return this.minBy(x => x, options);
     }
 
     /**
-     * Returns all settled results (fulfilled and rejected), stops at first done. Supports concurrency.
+     * Resolves with the largest value, compared with `<` and `>`, or undefined if there is none.
+     * Accepts a concurrency number or TerminalOptions.
      */
-    async collectSettled(concurrency: number = 1): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
-        const collected: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
-        let done = false;
-        while (!done) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if(res.status === 'rejected' || (res.status === 'fulfilled' && !res.value.done))
-                    collected.push(res);
-                if (res.status === 'fulfilled' && res.value.done) {
-                    done = true;
-                }
-            }
-        }
-        return collected;
+    async max(options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1] | undefined> {
+        return this.maxBy(x => x, options);
     }
 
     /**
-     * Returns the first n values, throws on error. Supports concurrency.
-     *
-     * @throws Error If n is negative or not a number, or if an error occurs in the pipeline.
+     * Resolves with the value with the smallest key, compared with `<` and `>`, or undefined if there is none.
+     * The first of several values with the same key wins. Accepts a concurrency number or TerminalOptions.
      */
-    async take(n: number, concurrency: number = 1): Promise<GetLastMethodType<Methods>[1][]> {
-        if (typeof n !== 'number' || n < 0) throw new Error('take(n): n must be a non-negative number');
-        const out: GetLastMethodType<Methods>[1][] = [];
-        let done = false;
-        while (!done && out.length < n) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if (res.status === 'fulfilled') {
-                    if (res.value.done) {
-                        done = true;
-                        break;
-                    }
-                    if(!res.value.done)
-                        out.push(res.value.value);
-                    if (out.length >= n) break;
-                } else {
-                    throw res.reason;
-                }
-            }
-        }
-        return out.slice(0, n);
+    async minBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1], K>, options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1] | undefined> {
+        const min = await this.fold(options, new Extremum<GetLastMethodType<Methods>[1]>(-1), (acc, value, idx) => {
+            acc.add(value, keyFn(value, idx));
+        });
+        return min.value;
+    }
+
+    /**
+     * Resolves with the value with the largest key, compared with `<` and `>`, or undefined if there is none.
+     * The first of several values with the same key wins. Accepts a concurrency number or TerminalOptions.
+     */
+    async maxBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1], K>, options?: number | TerminalOptions): Promise<GetLastMethodType<Methods>[1] | undefined> {
+        const max = await this.fold(options, new Extremum<GetLastMethodType<Methods>[1]>(1), (acc, value, idx) => {
+            acc.add(value, keyFn(value, idx));
+        });
+        return max.value;
     }
 
     /**
-     * Returns the first n settled results (fulfilled or rejected), stops at first done. Supports concurrency.
+     * Estimates the number of distinct values with a HyperLogLog sketch, in memory fixed by its precision.
+     * Resolves with the sketch: call `count()` for the estimate, or merge and serialize it to combine counts across
+     * workers. Accepts a concurrency number or TerminalOptions after the sketch options.
      *
-     * @throws Error If n is negative or not a number.
+     * @throws Error If precision is not an integer from 4 to 18.
      */
-    async takeSettled(n: number, concurrency: number = 1): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
-        if (typeof n !== 'number' || n < 0) throw new Error('takeSettled(n): n must be a non-negative number');
-        const out: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
-        let done = false;
-        while (!done && out.length < n) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if(res.status === 'rejected' || (res.status === 'fulfilled' && !res.value.done))
-                    out.push(res);
-                if (res.status === 'fulfilled' && res.value.done) {
-                    done = true;
-                    break;
-                }
-                if (out.length >= n) break;
-            }
-        }
-        return out.slice(0, n);
+    async approxDistinct(options: HyperLogLogOptions = {}, terminalOptions?: number | TerminalOptions): Promise<HyperLogLog> {
+        return this.fold(terminalOptions, new HyperLogLog(options), (sketch, value) => {
+            sketch.add(value);
+        });
     }
 
     /**
-     * Drops the first n values, returns the rest, throws on error. Supports concurrency.
+     * Summarizes the distribution of the values, which must be finite numbers, in a t-digest of bounded size.
+     * Resolves with the digest: call `quantile(q)` for estimates such as the p99, or merge and serialize it to combine
+     * workers. Accepts a concurrency number or TerminalOptions after the digest options.
      *
-     * @throws Error If n is negative or not a number, or if an error occurs in the pipeline.
+     * @throws Error If compression is not a number of at least 10.
+     * @throws TypeError If a value is not a finite number.
      */
-    async drop(n: number, concurrency: number = 1): Promise<GetLastMethodType<Methods>[1][]> {
-        if (typeof n !== 'number' || n < 0) throw new Error('drop(n): n must be a non-negative number');
-        const out: GetLastMethodType<Methods>[1][] = [];
-        let dropped = 0;
-        let done = false;
-        while (!done) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if (res.status === 'fulfilled') {
-                    if (res.value.done) {
-                        done = true;
-                        break;
-                    }
-                    if (dropped < n) {
-                        dropped++;
-                        continue;
-                    }
-                    if(!res.value.done)
-                        out.push(res.value.value);
-                } else {
-                    throw res.reason;
-                }
-            }
-        }
-        return out;
+    async approxQuantiles(options: TDigestOptions = {}, terminalOptions?: number | TerminalOptions): Promise<TDigest> {
+        return this.fold(terminalOptions, new TDigest(options), (digest, value) => {
+            digest.add(value);
+        });
     }
 
     /**
-     * Drops the first n values, returns all settled results for the rest. Supports concurrency.
+     * Counts the most frequent values with a Space-Saving sketch that holds at most `capacity` of them.
+     * Resolves with the sketch: call `top(n)` for the heavy hitters, or merge and serialize it to combine workers.
+     * Accepts a concurrency number or TerminalOptions after the sketch options.
      *
-     * @throws Error If n is negative or not a number.
+     * @throws Error If capacity is not a positive integer.
      */
-    async dropSettled(n: number, concurrency: number = 1): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
-        if (typeof n !== 'number' || n < 0) throw new Error('dropSettled(n): n must be a non-negative number');
-        const out: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
-        let dropped = 0;
-        let done = false;
-        while (!done) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if (res.status === 'fulfilled' && dropped < n) {
-                    if (res.value.done) {
+    async heavyHitters(options: SpaceSavingOptions = {}, terminalOptions?: number | TerminalOptions): Promise<SpaceSaving<GetLastMethodType<Methods>[1]>> {
+        return this.fold(terminalOptions, new SpaceSaving<GetLastMethodType<Methods>[1]>(options), (sketch, value) => {
+            sketch.add(value);
+        });
+    }
+
+    /**
+     * Returns all settled results (fulfilled and rejected), stops at first done. Accepts a concurrency number or TerminalOptions.
+     */
+    async collectSettled(options?: number | TerminalOptions): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
+        const { concurrency, signal } = resolveTerminalOptions(options);
+        return this.withTerminalSignal(signal, async () => {
+            const collected: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
+            let done = false;
+            while (!done) {
+                const results = await this._batchNext(concurrency);
+                for (const res of results) {
+                    if(res.status === 'rejected' || (res.status === 'fulfilled' && !res.value.done))
+                        collected.push(res);
+                    if (res.status === 'fulfilled' && res.value.done) {
                         done = true;
-                        break;
                     }
-                    
-                    dropped++;
-                    continue;
-                }
-                if(res.status === 'rejected')
-                    out.push(res);
-                if (res.status === 'fulfilled') {
-                    if(res.value.done) {
-                        done = true;
-                        break;
-                    } else out.push(res)
                 }
             }
-        }
-        return out;
+            return collected;
+        });
     }
 
     /**
-     * Returns values while predicate is true, throws on error. Supports concurrency.
+     * Returns the first n settled results (fulfilled or rejected), stops at first done. Accepts a concurrency number or TerminalOptions.
      *
-     * @throws Error If an error occurs in the pipeline.
+     * @throws Error If n is negative or not a number.
      */
-    async takeWhile(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => boolean, concurrency: number = 1): Promise<GetLastMethodType<Methods>[1][]> {
-        const out: GetLastMethodType<Methods>[1][] = [];
-        let idx = 0;
-        let done = false;
-        while (!done) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if (res.status === 'fulfilled') {
-                    if (res.value.done || !predicate(res.value.value, idx)) {
+    async takeSettled(n: number, options?: number | TerminalOptions): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
+        if (typeof n !== 'number' || n < 0) throw new Error('takeSettled(n): n must be a non-negative number');
+        const { concurrency, signal } = resolveTerminalOptions(options);
+        return this.withTerminalSignal(signal, async () => {
+            const out: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
+            let done = false;
+            while (!done && out.length < n) {
+                const results = await this._batchNext(concurrency);
+                for (const res of results) {
+                    if(res.status === 'rejected' || (res.status === 'fulfilled' && !res.value.done))
+                        out.push(res);
+                    if (res.status === 'fulfilled' && res.value.done) {
                         done = true;
                         break;
                     }
-                    else
-                        out.push(res.value.value);
-                    idx++;
-                } else {
-                    throw res.reason;
+                    if (out.length >= n) break;
                 }
             }
-        }
-        return out;
+            return out.slice(0, n);
+        });
     }
 
     /**
-     * Returns all settled results while predicate is true, stops at first done. Supports concurrency.
+     * Drops the first n values, returns all settled results for the rest. Accepts a concurrency number or TerminalOptions.
+     *
+     * @throws Error If n is negative or not a number.
      */
-    async takeWhileSettled(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => boolean, concurrency: number = 1): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
-        const out: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
-        let idx = 0;
-        let done = false;
-        while (!done) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if(res.status === 'rejected')
-                    out.push(res);
-                if (res.status === 'fulfilled') {
-                    if (res.value.done || !predicate(res.value.value, idx)) {
-                        done = true;
-                        break;
+    async dropSettled(n: number, options?: number | TerminalOptions): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
+        if (typeof n !== 'number' || n < 0) throw new Error('dropSettled(n): n must be a non-negative number');
+        const { concurrency, signal } = resolveTerminalOptions(options);
+        return this.withTerminalSignal(signal, async () => {
+            const out: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
+            let dropped = 0;
+            let done = false;
+            while (!done) {
+                const results = await this._batchNext(concurrency);
+                for (const res of results) {
+                    if (res.status === 'fulfilled' && dropped < n) {
+                        if (res.value.done) {
+                            done = true;
+                            break;
+                        }
+                    
+                        dropped++;
+                        continue;
                     }
-                    else {
-                        out.push(res)
+                    if(res.status === 'rejected')
+                        out.push(res);
+                    if (res.status === 'fulfilled') {
+                        if(res.value.done) {
+                            done = true;
+                            break;
+                        } else out.push(res)
                     }
-                    idx++;
                 }
             }
-        }
-        return out;
+            return out;
+        });
     }
 
     /**
-     * Drops values while predicate is true, returns the rest, throws on error. Supports concurrency.
-     *
-     * @throws Error If an error occurs in the pipeline.
+     * Returns all settled results while predicate is true, stops at first done. Accepts a concurrency number or TerminalOptions.
      */
-    async dropWhile(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => boolean, concurrency: number = 1): Promise<GetLastMethodType<Methods>[1][]> {
-        const out: GetLastMethodType<Methods>[1][] = [];
-        let idx = 0;
-        let dropping = true;
-        let done = false;
-        while (!done) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if (res.status === 'fulfilled') {
-                    if (res.value.done) {
-                        done = true;
-                        break;
-                    }
-                    if (dropping && predicate(res.value.value, idx)) {
+    async takeWhileSettled(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => boolean, options?: number | TerminalOptions): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
+        const { concurrency, signal } = resolveTerminalOptions(options);
+        return this.withTerminalSignal(signal, async () => {
+            const out: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
+            let idx = 0;
+            let done = false;
+            while (!done) {
+                const results = await this._batchNext(concurrency);
+                for (const res of results) {
+                    if(res.status === 'rejected')
+                        out.push(res);
+                    if (res.status === 'fulfilled') {
+                        if (res.value.done || !predicate(res.value.value, idx)) {
+                            done = true;
+                            break;
+                        }
+                        else {
+                            out.push(res)
+                        }
                         idx++;
-                        continue;
                     }
-                    dropping = false;
-                    if(!res.value.done)
-                        out.push(res.value.value);
-                    idx++;
-                } else {
-                    throw res.reason;
                 }
             }
-        }
-        return out;
+            return out;
+        });
     }
 
     /**
-     * Drops values while predicate is true, returns all settled results for the rest. Supports concurrency.
+     * Drops values while predicate is true, returns all settled results for the rest. Accepts a concurrency number or TerminalOptions.
      */
-    async dropWhileSettled(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => boolean, concurrency: number = 1): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
-        const out: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
-        let idx = 0;
-        let dropping = true;
-        let done = false;
-        while (!done) {
-            const results = await this._batchNext(concurrency);
-            for (const res of results) {
-                if (res.status === 'fulfilled' && dropping && predicate(res.value.value, idx)) {
-                    if (res.value.done) {
-                        done = true;
-                        break;
-                    }
-                    idx++;
-                    continue;
-                }
-                if(res.status === 'rejected')
-                    out.push(res);
-                if (res.status === 'fulfilled') {
-                    if (res.value.done) {
-                        done = true;
-                        break;
-                    }
-                    if (dropping && predicate(res.value.value, idx)) {
+    async dropWhileSettled(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => boolean, options?: number | TerminalOptions): Promise<PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[]> {
+        const { concurrency, signal } = resolveTerminalOptions(options);
+        return this.withTerminalSignal(signal, async () => {
+            const out: PromiseSettledResult<IteratorResult<GetLastMethodType<Methods>[1], any>>[] = [];
+            let idx = 0;
+            let dropping = true;
+            let done = false;
+            while (!done) {
+                const results = await this._batchNext(concurrency);
+                for (const res of results) {
+                    if (res.status === 'fulfilled' && dropping && predicate(res.value.value, idx)) {
+                        if (res.value.done) {
+                            done = true;
+                            break;
+                        }
                         idx++;
                         continue;
                     }
-                    if(!res.value.done)
-                        out.push(res)
-                    dropping = false;
-                    idx++;
+                    if(res.status === 'rejected')
+                        out.push(res);
+                    if (res.status === 'fulfilled') {
+                        if (res.value.done) {
+                            done = true;
+                            break;
+                        }
+                        if (dropping && predicate(res.value.value, idx)) {
+                            idx++;
+                            continue;
+                        }
+                        if(!res.value.done)
+                            out.push(res)
+                        dropping = false;
+                        idx++;
+                    }
                 }
             }
-        }
-        return out;
+            return out;
+        });
     }
 }
 
-type ExtractLazyIteratorMethods<T extends unknown> =
-    T extends LazyAsyncIterator<infer _, infer Q> 
-    ? Q
-    : never;
-
-
 /**
- * Executes a reduce operation on a LazyAsyncIterator chain.
+ * Executes a reduce operation on a LazyAsyncIterator chain, folding one element at a time in constant memory.
  */
-class ReduceExecutor<R extends any, S extends AsyncIterMethods<any,any>, T extends LazyAsyncIterator<R, S[]>> {
-    private lazyIterator: T;
+class ReduceExecutor<T, S> {
+    private lazyIterator: LazyAsyncIterator<any, any>;
+    private fn: ReduceFunc<T,S> | ReduceAsyncFunc<T,S>;
+    private initVal: S;
 
-    constructor(lazyIterator: T) {
+    constructor(lazyIterator: LazyAsyncIterator<any, any>, fn: ReduceFunc<T,S> | ReduceAsyncFunc<T,S>, initVal: S) {
         this.lazyIterator = lazyIterator;
+        this.fn = fn;
+        this.initVal = initVal;
     }
 
     /**
-     * Executes the reduce operation and returns the result.
+     * Executes the reduce operation and returns the result. `options.signal` aborts the pipeline while it runs.
+     * The pipeline is closed when it or the reducer throws.
+     *
+     * @throws AbortError If the pipeline or options.signal is aborted.
      */
-    async execute() {
-        const reduceMethod = this.lazyIterator.methods.at(-1)!;
-        this.lazyIterator.methods.slice(0,-1);
-        const array = await this.lazyIterator.collect();
-        //@ts-expect-error
-        const result = array.reduce(reduceMethod.fn as unknown as ReduceFunc<GetLastMethodType<ExtractLazyIteratorMethods<T>>[0],GetLastMethodType<ExtractLazyIteratorMethods<T>>[1]>, reduceMethod.initVal);
-        return result as unknown as GetLastMethodType<ExtractLazyIteratorMethods<T>>[1]
+    async execute(options: { signal?: AbortSignal } = {}): Promise<S> {
+        const unlink = linkSignal(options.signal, reason => this.lazyIterator.abort(reason));
+        let finished = false;
+        try {
+            let acc = this.initVal;
+            let idx = 0;
+            for (let res = await this.lazyIterator.next(); !res.done; res = await this.lazyIterator.next()) {
+                acc = await this.fn(acc, res.value, idx++);
+            }
+            finished = true;
+            return acc;
+        } finally {
+            if (!finished) await this.lazyIterator.return();
+            unlink();
+        }
     }
 }
 
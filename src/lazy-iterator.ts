@@ -1,4 +1,13 @@
-import {createTeeIterators} from './tee'
+import {createTeeIterators, TeeOptions} from './tee'
+import { RingBuffer } from './ring-buffer'
+import { assertCombinable, combineIterables, ElementOf } from './combine'
+import { DiffOptions, diffIterables, DiffRecord, resolveDiffOptions } from './diff'
+import { assertTopK, externalSortIterable, resolveSortByOptions, SortByOptions, TopK } from './sort'
+import { LazyAsyncIterator } from './lazy-async-iterator'
+import { DistinctOptions, ResolvedDistinctOptions, resolveDistinctOptions, SeenKeys } from './distinct'
+import { JoinMode, mergeSortedIterables, naturalOrder, resolveSortedJoinOptions, SortedJoinOptions, sortedJoinIterables } from './sorted'
+import { Extremum, RunningStats, Stats, Summation, Summed } from './stats'
+import { HyperLogLog, HyperLogLogOptions, SpaceSaving, SpaceSavingOptions, TDigest, TDigestOptions } from './sketches'
 
 /**
  * A function that maps a value and its index to a new value.
@@ -18,8 +27,30 @@ type ForEachFunc<T,S extends any = any> = (x: T, idx: number) => void;
 type ReduceFunc<T,S> = (acc: S, curr: T, idx: number) => S;
 
 
+/**
+ * A function that expands a value into an iterable of values.
+ */
+type FlatMapFunc<T,S> = (x: T, idx: number) => Iterable<S>;
+
+/**
+ * The kinds of stages that can be chained onto a LazyIterator.
+ */
+type MethodKind = 'map' | 'scan' | 'forEach' | 'filter' | 'take' | 'drop' | 'takeWhile' | 'dropWhile' | 'flatMap' | 'chunk' | 'window' | 'groupAdjacent' | 'distinct' | 'distinctUntilChanged';
+
+type ChainMethod = {
+    fn: IteratorMethods<any,any>
+    kind: MethodKind,
+    initVal?: any,
+    limit?: number,
+    size?: number,
+    step?: number,
+    keys?: ResolvedDistinctOptions
+};
+
+
 type IteratorMethods<T,S extends any = any> = 
   MapFunc<T,S> |
+  FlatMapFunc<T,S> |
   FilterFunc<T,S> |
   ForEachFunc<T,S> |
   ReduceFunc<T,S> |
@@ -45,11 +76,107 @@ type GetLastMethodType<T extends any[]> = T extends readonly [...any[], infer La
 
 type Push<T extends any[], S extends any> = [...T, S];
 
+/**
+ * The element type produced by flattening T up to Depth levels of nested iterables (strings are left intact).
+ */
+type Flattened<T, Depth extends number> = {
+    done: T,
+    recur: T extends string
+        ? T
+        : T extends Iterable<infer Inner>
+            ? Flattened<Inner, [-1, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9][Depth]>
+            : T
+}[Depth extends -1 | 0 ? 'done' : 'recur'];
+
+/**
+ * An inner iterator produced by a flatMap stage that has not been fully consumed yet.
+ */
+type InnerIterator = {
+    stage: number,
+    iterator: Iterator<any>,
+    index: number
+};
+
+/**
+ * The values a chunk or groupAdjacent stage has collected towards its next batch, and the index of the first of them.
+ * For groupAdjacent, `key` is the key the values share.
+ */
+type Batch = {
+    items: any[],
+    index: number,
+    key?: any
+};
+
+/**
+ * The key type of a [key, value] entry.
+ */
+type EntryKey<T> = T extends readonly [infer K, any] ? K : never;
+/**
+ * The value type of a [key, value] entry.
+ */
+type EntryValue<T> = T extends readonly [any, infer V] ? V : never;
+
+/**
+ * The values a window stage currently holds with their indexes, oldest first, and how many upcoming
+ * values it still has to skip before the next window starts.
+ */
+type WindowBuffer = {
+    entries: RingBuffer<{ value: any, index: number }>,
+    skip: number
+};
+
+type StageResult =
+    { status: 'emit', value: any } |
+    { status: 'skip' } |
+    { status: 'done', stage: number };
+
+/**
+ * Returns an iterator over the result of a flatMap callback.
+ *
+ * @throws TypeError If the result is not an iterable object.
+ */
+function getInnerIterator(result: unknown): Iterator<any> {
+    if(typeof result === 'object' && result !== null && typeof (result as any)[Symbol.iterator] === 'function')
+        return (result as Iterable<any>)[Symbol.iterator]();
+    throw new TypeError('flatMap(cb): cb must return an iterable');
+}
+
+/**
+ * Returns true if two keys are equal under SameValueZero, the equality Map and Set use.
+ */
+function sameKey(a: unknown, b: unknown) {
+    return a === b || (a !== a && b !== b);
+}
+
+/**
+ * Returns the key and value of a [key, value] entry.
+ *
+ * @throws TypeError If the value is not an entry.
+ */
+function toEntry(method: string, value: any): [any, any] {
+    if(typeof value !== 'object' || value === null) throw new TypeError(`${method}: values must be [key, value] entries`);
+    return [value[0], value[1]];
+}
+
+/**
+ * Recursively yields the items of nested iterables up to the given depth. Strings and non-iterable values are yielded as-is.
+ */
+function* flattenValue(value: any, depth: number): Generator<any> {
+    if(depth > 0 && typeof value === 'object' && value !== null && typeof value[Symbol.iterator] === 'function') {
+        for(const item of value) {
+            yield* flattenValue(item, depth - 1);
+        }
+        return;
+    }
+    yield value;
+}
+
 
  /**
  * A lazy, chainable iterator supporting map, filter, forEach, reduce, and other functional operations.
  *
  * Allows for efficient, composable data processing pipelines without creating intermediate arrays.
+ * Every chained method returns a new LazyIterator and leaves the one it was called on unchanged.
  *
  * @template IterType The type of elements in the iterator.
  * @template Methods The chain of methods applied to the iterator.
@@ -58,16 +185,45 @@ type Push<T extends any[], S extends any> = [...T, S];
  * @throws Error If take(n) or drop(n) is called with a negative number.
  */
 export class LazyIterator<IterType, Methods extends IteratorMethods<any,any>[] = [Iterator<IterType>]> implements IterableIterator<IterType> {
-    iterator: Iterator<IterType>;
-    _methods: {
-        fn: IteratorMethods<any,any>
-        kind: 'map' | 'reduce' | 'forEach' | 'filter',
-        initVal?: any
-    }[];
+    /**
+     * The iterator or iterable this pipeline pulls from. Shared by every pipeline derived from this one.
+     */
+    private _source: Iterator<IterType> | Iterable<IterType>;
+    private _iterator: Iterator<IterType> | null;
+    _methods: readonly ChainMethod[];
 
     exhausted: boolean;
     caughtError: Error | null;
     index: number;
+    /**
+     * Per-stage counters used by take, drop, dropWhile, scan and distinctUntilChanged stages, indexed by stage position.
+     */
+    private _stageCounts: number[];
+    /**
+     * Running accumulators of scan stages and the last values let through by distinctUntilChanged stages, indexed by stage position.
+     */
+    private _accumulators: any[];
+    /**
+     * Inner iterators opened by flatMap stages, innermost (highest stage) last.
+     */
+    private _innerIterators: InnerIterator[];
+    /**
+     * Partial batches of chunk and groupAdjacent stages, indexed by stage position.
+     */
+    private _batches: (Batch | undefined)[];
+    /**
+     * Buffered values of window stages, indexed by stage position.
+     */
+    private _windowBuffers: WindowBuffer[];
+    /**
+     * Keys let through by distinct and distinctBy stages, indexed by stage position.
+     */
+    private _seenKeys: SeenKeys[];
+    /**
+     * The stage the stream ended at (-1 once the source is done), or null while it is still running.
+     * Nothing is pulled through that stage again, but partial batches after it are still flushed downstream.
+     */
+    private _endedAt: number | null;
 
     /**
      * Creates a LazyIterator from an iterator or iterable.
@@ -80,43 +236,133 @@ export class LazyIterator<IterType, Methods extends IteratorMethods<any,any>[] =
             return new LazyIterator<T>(iter)
         }
 
+        // Iterables are opened lazily, so every pipeline derived from this one gets its own pass over them
         if (typeof iter === 'object' && Symbol.iterator in iter) {
-            const iterator = (iter as Iterable<T>)[Symbol.iterator]();
-            return new LazyIterator<T>(iterator);
+            return new LazyIterator<T>(iter);
         }
 
         throw new Error("Couldn't create LazyIterator. no valid iterator");
     }
 
     /**
-     * Constructs a LazyIterator from a given iterator.
+     * Combines the inputs into tuples holding one value from each, stopping as soon as any input is done.
+     * The inputs that are not done yet are then closed, as they are when the combined pipeline is closed early.
+     *
+     * @throws Error If an input is not an iterator or iterable.
+     */
+    static zip<T extends (Iterator<any> | Iterable<any>)[]>(...inputs: T) {
+        assertCombinable('LazyIterator.zip(...inputs)', inputs, false);
+        return new LazyIterator<{ [K in keyof T]: ElementOf<T[K]> }>(combineIterables('zip', inputs));
+    }
+
+    /**
+     * Combines the inputs into tuples like zip(), but keeps going until every input is done, using `fill` in place of
+     * the values of inputs that already are.
+     *
+     * @throws Error If an input is not an iterator or iterable.
+     */
+    static zipLongest<F, T extends (Iterator<any> | Iterable<any>)[]>(fill: F, ...inputs: T) {
+        assertCombinable('LazyIterator.zipLongest(fill, ...inputs)', inputs, false);
+        return new LazyIterator<{ [K in keyof T]: ElementOf<T[K]> | F }>(combineIterables('zipLongest', inputs, fill));
+    }
+
+    /**
+     * Yields every value of each input in turn. Inputs are pulled only once the ones before them are done.
+     *
+     * @throws Error If an input is not an iterator or iterable.
+     */
+    static concat<T extends (Iterator<any> | Iterable<any>)[]>(...inputs: T) {
+        assertCombinable('LazyIterator.concat(...inputs)', inputs, false);
+        return new LazyIterator<ElementOf<T[number]>>(combineIterables('concat', inputs));
+    }
+
+    /**
+     * Yields one value from each input in turn, stopping as soon as the input whose turn it is is done.
+     *
+     * @throws Error If an input is not an iterator or iterable.
+     */
+    static interleave<T extends (Iterator<any> | Iterable<any>)[]>(...inputs: T) {
+        assertCombinable('LazyIterator.interleave(...inputs)', inputs, false);
+        return new LazyIterator<ElementOf<T[number]>>(combineIterables('interleave', inputs));
+    }
+
+    /**
+     * Yields one value from each input in turn, skipping inputs that are done, until every input is done.
+     *
+     * @throws Error If an input is not an iterator or iterable.
+     */
+    static roundRobin<T extends (Iterator<any> | Iterable<any>)[]>(...inputs: T) {
+        assertCombinable('LazyIterator.roundRobin(...inputs)', inputs, false);
+        return new LazyIterator<ElementOf<T[number]>>(combineIterables('roundRobin', inputs));
+    }
+
+    /**
+     * Merges inputs that are each sorted by `compare` into one sorted sequence, holding only one value per input at a
+     * time. Values that compare equal keep the order of their inputs.
+     *
+     * @throws TypeError If compare is not a function.
+     * @throws Error If an input is not an iterator or iterable.
+     * @throws SortOrderError When an input yields a value that sorts before the previous one.
      */
-    constructor(iterator: Iterator<IterType>) {
-        this.iterator = iterator;
+    static mergeSorted<T extends (Iterator<any> | Iterable<any>)[]>(compare: (a: ElementOf<T[number]>, b: ElementOf<T[number]>) => number, ...inputs: T) {
+        if (typeof compare !== 'function') throw new TypeError('LazyIterator.mergeSorted(compare, ...inputs): compare must be a function');
+        assertCombinable('LazyIterator.mergeSorted(compare, ...inputs)', inputs, false);
+        return new LazyIterator<ElementOf<T[number]>>(mergeSortedIterables('LazyIterator.mergeSorted(compare, ...inputs)', compare, inputs));
+    }
+
+    /**
+     * Constructs a LazyIterator from a given iterator or iterable.
+     */
+    constructor(source: Iterator<IterType> | Iterable<IterType>) {
+        this._source = source;
+        this._iterator = null;
         this._methods = []
         this.exhausted = false;
         this.caughtError = null;
         this.index = 0;
+        this._stageCounts = [];
+        this._accumulators = [];
+        this._innerIterators = [];
+        this._batches = [];
+        this._windowBuffers = [];
+        this._seenKeys = [];
+        this._endedAt = null;
+    }
+
+    /**
+     * The iterator values are pulled from. Iterable sources are opened on first access.
+     */
+    get iterator(): Iterator<IterType> {
+        if(this._iterator === null) {
+            this._iterator = typeof (this._source as Iterator<IterType>).next === 'function'
+                ? this._source as Iterator<IterType>
+                : (this._source as Iterable<IterType>)[Symbol.iterator]();
+        }
+        return this._iterator;
+    }
+
+    /**
+     * Returns a new LazyIterator over the same source with the given method appended to a copy of this chain.
+     * This pipeline is left untouched, so it can be branched or reused as a template.
+     */
+    private withMethod(method: ChainMethod): LazyIterator<IterType, any> {
+        const derived = new LazyIterator<IterType>(this._source);
+        derived._methods = [...this._methods, method];
+        return derived;
     }
 
-    private executeFunctMethod<T>(method: {
-        fn: IteratorMethods<any,any>,
-        kind: 'map' | 'reduce' | 'forEach' | 'filter',
-        initVal?: any
-    }, val: T, index: number) {
+    private executeFunctMethod<T>(method: ChainMethod, val: T, index: number) {
         switch(method.kind) {
             case 'map':
             case 'filter':
             case 'forEach':
+            case 'takeWhile':
+            case 'dropWhile':
+            case 'flatMap':
                 {
-                    const fn = method.fn as MapFunc<any,any> | FilterFunc<any,any> | ForEachFunc<any,any>;
+                    const fn = method.fn as MapFunc<any,any> | FilterFunc<any,any> | ForEachFunc<any,any> | FlatMapFunc<any,any>;
                     return fn(val, index)
                 }  
-            case 'reduce':
-                {
-                    const fn = method.fn as ReduceFunc<any,any>
-                    return fn({}, val, index)
-                }
             default:
                 return {} as any
         }
@@ -132,64 +378,249 @@ export class LazyIterator<IterType, Methods extends IteratorMethods<any,any>[] =
         if(this.exhausted) return { done: true, value: undefined} 
 
         while(true) {
-            const nextVal = this.iterator.next();
+            const after = this._endedAt ?? -1;
+            const last = this._innerIterators.at(-1);
+            // Inner iterators opened before the stream ended can no longer reach the end of the pipeline
+            const inner = last && last.stage > after ? last : undefined;
+
+            const reached = this.reachedLimit(inner ? inner.stage : after);
+            if(reached !== -1) {
+                this._endedAt = reached;
+                continue;
+            }
+
+            let value: any;
+            let index: number;
+            let start: number;
+
+            if(inner) {
+                const innerVal = inner.iterator.next();
+                if(innerVal.done) {
+                    this._innerIterators.pop();
+                    continue;
+                }
+                value = innerVal.value;
+                index = inner.index;
+                start = inner.stage + 1;
+            } else if(this._endedAt !== null) {
+                const stage = this.pendingBatchAfter(this._endedAt);
+                if(stage === -1) {
+                    // Close the source unless it ended on its own, e.g. when a take or takeWhile stage is satisfied
+                    if(this._endedAt === -1) this.exhausted = true;
+                    else this.return();
+                    return { done: true, value: undefined}
+                }
+                const batch = this._batches[stage]!;
+                this._batches[stage] = undefined;
+                value = batch.items;
+                index = batch.index;
+                start = stage + 1;
+            } else {
+                const nextVal = this.iterator.next();
+
+                if(nextVal.done) {
+                    this._endedAt = -1;
+                    continue;
+                }
+                value = nextVal.value;
+                index = this.index++;
+                start = 0;
+            }
+
+            const result = this.runStages(value, index, start);
+
+            if(result.status === 'done') {
+                this._endedAt = Math.max(this._endedAt ?? -1, result.stage);
+                continue;
+            }
+
+            if(result.status === 'skip') continue;
+
+            return { done: false, value: result.value } as { value: GetLastMethodType<Methods>[1], done: false}
+        }
         
-            if(nextVal.done) {
-                this.exhausted = true;
-                 return { done: true, value: undefined}
+    }
+
+    /**
+     * Runs a value through the chained methods starting at the given stage.
+     * A flatMap stage opens an inner iterator and skips, so that next() resumes from it.
+     * A chunk stage collects values and skips until its batch is full, then passes the batch on.
+     * A window stage does the same with a window that advances by its step, and a groupAdjacent stage passes a batch on once the key changes.
+     */
+    private runStages(value: any, index: number, start: number): StageResult {
+        let a = value;
+
+        for(let i = start; i < this._methods.length; i++) {
+            const method = this._methods[i];
+            const count = this._stageCounts[i] ?? 0;
+
+            if(method.kind === 'take' || method.kind === 'drop') {
+                this._stageCounts[i] = count + 1;
+                if(method.kind === 'drop' && count < method.limit!) return { status: 'skip' };
+                continue;
             }
 
-            if(this._methods.length === 0) return { value: nextVal.value, done: false} as { value: GetLastMethodType<Methods>[1], done: false}
+            if(method.kind === 'dropWhile' && count > 0) continue;
 
-            
-            let filterFail = false;
-            let a = nextVal.value;
+            if(method.kind === 'chunk') {
+                const batch = this._batches[i] ??= { items: [], index };
+                batch.items.push(a);
+                if(batch.items.length < method.size!) return { status: 'skip' };
+                this._batches[i] = undefined;
+                a = batch.items;
+                index = batch.index;
+                continue;
+            }
 
-            for(let i = 0; i < this._methods.length; i++) {
-                let retVal = this.executeFunctMethod(this._methods[i], a, this.index)
-                
-                // console.log({ value: nextVal.value, retVal, kind: this.methods[i].kind});
+            if(method.kind === 'groupAdjacent') {
+                const key = (method.fn as MapFunc<any,any>)(a, index);
+                const batch = this._batches[i];
+                if(batch && sameKey(batch.key, key)) {
+                    batch.items.push(a);
+                    return { status: 'skip' };
+                }
+                this._batches[i] = { items: [a], index, key };
+                if(!batch) return { status: 'skip' };
+                a = batch.items;
+                index = batch.index;
+                continue;
+            }
 
-                if(this._methods[i].kind === 'map')
-                    a = retVal;
-                if(this._methods[i].kind === 'filter' && retVal === false) {
-                    filterFail = true;
-                    break
+            if(method.kind === 'window') {
+                const buffer = this._windowBuffers[i] ??= { entries: new RingBuffer(method.size!), skip: 0 };
+                if(buffer.skip > 0) {
+                    buffer.skip--;
+                    return { status: 'skip' };
                 }
+                buffer.entries.push({ value: a, index });
+                if(buffer.entries.length < method.size!) return { status: 'skip' };
+                const entries = Array.from({ length: method.size! }, (_, k) => buffer.entries.get(k));
+                for(let k = Math.min(method.step!, method.size!); k > 0; k--) buffer.entries.shift();
+                buffer.skip = Math.max(0, method.step! - method.size!);
+                a = entries.map(entry => entry.value);
+                index = entries[0].index;
+                continue;
             }
 
+            if(method.kind === 'distinct') {
+                const key = (method.fn as MapFunc<any,any>)(a, index);
+                if(!(this._seenKeys[i] ??= new SeenKeys(method.keys!)).add(key)) return { status: 'skip' };
+                continue;
+            }
 
-            this.index++;
+            if(method.kind === 'distinctUntilChanged') {
+                if(count > 0 && (method.fn as (previous: any, current: any) => boolean)(this._accumulators[i], a)) return { status: 'skip' };
+                this._accumulators[i] = a;
+                this._stageCounts[i] = count + 1;
+                continue;
+            }
 
-            if(filterFail) continue;
+            if(method.kind === 'scan') {
+                const acc = count === 0 ? method.initVal : this._accumulators[i];
+                a = (method.fn as ReduceFunc<any,any>)(acc, a, index);
+                this._accumulators[i] = a;
+                this._stageCounts[i] = count + 1;
+                continue;
+            }
+
+            let retVal = this.executeFunctMethod(method, a, index)
 
-            return { done: false, value: a} as { value: GetLastMethodType<Methods>[1], done: false}
+            if(method.kind === 'map')
+                a = retVal;
+            if(method.kind === 'filter' && retVal === false)
+                return { status: 'skip' };
+            if(method.kind === 'takeWhile' && !retVal)
+                return { status: 'done', stage: i };
+            if(method.kind === 'dropWhile') {
+                if(retVal) return { status: 'skip' };
+                this._stageCounts[i] = 1;
+            }
+            if(method.kind === 'flatMap') {
+                this._innerIterators.push({ stage: i, iterator: getInnerIterator(retVal), index });
+                return { status: 'skip' };
+            }
         }
-        
+
+        return { status: 'emit', value: a };
+    }
+
+    /**
+     * Returns the position of the last take stage after the given stage that has let through as many values as its limit allows,
+     * meaning nothing pulled from that point on can reach the end of the pipeline, or -1 if there is none.
+     */
+    private reachedLimit(afterStage: number) {
+        for(let i = this._methods.length - 1; i > afterStage; i--) {
+            const method = this._methods[i];
+            if(method.kind === 'take' && (this._stageCounts[i] ?? 0) >= method.limit!) return i;
+        }
+        return -1;
+    }
+
+    /**
+     * Returns the position of the first chunk stage after the given stage that holds a partial batch, or -1 if there is none.
+     */
+    private pendingBatchAfter(afterStage: number) {
+        for(let i = afterStage + 1; i < this._methods.length; i++) {
+            if(this._batches[i] !== undefined) return i;
+        }
+        return -1;
     }
 
     /**
-     * Marks the iterator as exhausted and returns the given value.
+     * Closes every open inner iterator, innermost first.
      */
-    return(value: any) {
+    private closeInnerIterators() {
+        while(this._innerIterators.length > 0) {
+            this._innerIterators.pop()!.iterator.return?.();
+        }
+    }
+
+    /**
+     * Marks the iterator as exhausted, closes the source iterator and returns the given value.
+     */
+    return(value?: any) {
         if(!this.exhausted) {
             this.exhausted = true;
+            this._batches = [];
+            this._windowBuffers = [];
+            this.closeInnerIterators();
+            this._iterator?.return?.();
         }
 
         return { value, done: this.exhausted }
     }
 
     /**
-     * Marks the iterator as exhausted due to an error.
+     * Marks the iterator as exhausted due to an error. The error is forwarded to the source iterator's throw()
+     * when it has one, otherwise the source is closed with return().
+     *
+     * @throws The forwarded error, if the source iterator does not handle it.
      */
     throw(e: any) {
         if(!this.exhausted) {
             this.exhausted = true
+            this._batches = [];
+            this._windowBuffers = [];
+            this.closeInnerIterators();
+            const iterator = this._iterator;
+            if(iterator && typeof iterator.throw === 'function') {
+                const result = iterator.throw(e);
+                if(!result.done) iterator.return?.();
+            } else {
+                iterator?.return?.();
+            }
         }
 
         return { done: this.exhausted, value: undefined}
     }
 
+    /**
+     * Closes the pipeline and its source, so `using` releases the source deterministically.
+     */
+    [Symbol.dispose]() {
+        this.return();
+    }
+
     /**
      * Returns itself as an iterator.
      */
@@ -201,24 +632,20 @@ export class LazyIterator<IterType, Methods extends IteratorMethods<any,any>[] =
      * Lazily maps each value using the provided callback.
      */
     map<S>(cb: MapFunc<GetLastMethodType<Methods>[1],S>) {
-        this._methods.push({
+        return this.withMethod({
             fn: cb,
             kind: 'map'
-        });
-
-        return this as unknown as LazyIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],S>>>;
+        }) as unknown as LazyIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],S>>>;
     }
 
     /**
      * Lazily filters values using the provided predicate.
      */
     filter(cb: FilterFunc<GetLastMethodType<Methods>[1]>) {
-        this._methods.push({
+        return this.withMethod({
             fn: cb,
             kind: 'filter'
-        });
-
-        return this as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+        }) as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
     }
 
     /**
@@ -227,29 +654,204 @@ export class LazyIterator<IterType, Methods extends IteratorMethods<any,any>[] =
      * Note: Unlike Array.prototype.forEach, this does not terminate or consume the iterator. It is a pass-through operation and can be used for observability (e.g., logging, debugging) within a pipeline. The iterator continues to yield values downstream.
      */
     forEach(cb: ForEachFunc<GetLastMethodType<Methods>[1]>) {
-        this._methods.push({
+        return this.withMethod({
             fn: cb,
             kind: 'forEach'
-        });
+        }) as unknown as LazyIterator<IterType, Push<Methods, ForEachFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily maps each value to an iterable and yields the items of that iterable one by one.
+     * Inner items are pulled only as they are requested.
+     *
+     * @throws TypeError When iterated, if the callback returns something that is not an iterable.
+     */
+    flatMap<S>(cb: FlatMapFunc<GetLastMethodType<Methods>[1],S>) {
+        return this.withMethod({
+            fn: cb,
+            kind: 'flatMap'
+        }) as unknown as LazyIterator<IterType, Push<Methods, FlatMapFunc<GetLastMethodType<Methods>[1],S>>>;
+    }
 
-        return this as unknown as LazyIterator<IterType, Push<Methods, ForEachFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    /**
+     * Lazily flattens nested iterables up to the given depth (default 1). Strings and non-iterable values are passed through unchanged.
+     *
+     * @throws Error If depth is negative or not a number.
+     */
+    flatten<D extends number = 1>(depth: D = 1 as D) {
+        if (typeof depth !== 'number' || depth < 0) throw new Error('flatten(depth): depth must be a non-negative number');
+        return this.withMethod({
+            fn: (x: any) => flattenValue(x, depth),
+            kind: 'flatMap'
+        }) as unknown as LazyIterator<IterType, Push<Methods, FlatMapFunc<GetLastMethodType<Methods>[1],Flattened<GetLastMethodType<Methods>[1], D>>>>;
     }
 
     /**
-     * Lazily reduces values to a single result using the provided reducer and initial value.
+     * Lazily folds values with the provided reducer and emits each running accumulation downstream.
      */
-    reduce<S>(cb: ReduceFunc<GetLastMethodType<Methods>[1],S>, initVal: S) {
-        this._methods.push({
+    scan<S>(cb: ReduceFunc<GetLastMethodType<Methods>[1],S>, initVal: S) {
+        return this.withMethod({
             fn: cb,
-            kind: 'reduce',
+            kind: 'scan',
             initVal
-        })
+        }) as unknown as LazyIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],S>>>;
+    }
 
-        const lazyIterator = this as unknown as LazyIterator<IterType, Push<Methods, ReduceFunc<GetLastMethodType<Methods>[1],S>>>
+    /**
+     * Lazily groups values into arrays of `size` values. The last batch holds whatever is left once the
+     * upstream ends, so it may be shorter. Downstream callbacks receive the index of the batch's first value.
+     *
+     * @throws Error If size is not a positive integer.
+     */
+    chunk(size: number) {
+        if (!Number.isInteger(size) || size < 1) throw new Error('chunk(size): size must be a positive integer');
+        return this.withMethod({
+            fn: (x: any) => x,
+            kind: 'chunk',
+            size
+        }) as unknown as LazyIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1][]>>>;
+    }
 
-        const reduceExec = new ReduceExecutor(lazyIterator);
+    /**
+     * Lazily emits windows of the last `size` values, starting a new window every `step` values (defaults to 1).
+     * A step smaller than the size gives overlapping sliding windows, a step equal to it gives tumbling windows, and a
+     * larger step skips values between windows. Only full windows are emitted, and at most `size` values are buffered.
+     * Downstream callbacks receive the index of the window's first value.
+     *
+     * @throws Error If size or step is not a positive integer.
+     */
+    window(size: number, step: number = 1) {
+        if (!Number.isInteger(size) || size < 1) throw new Error('window(size, step): size must be a positive integer');
+        if (!Number.isInteger(step) || step < 1) throw new Error('window(size, step): step must be a positive integer');
+        return this.withMethod({
+            fn: (x: any) => x,
+            kind: 'window',
+            size,
+            step
+        }) as unknown as LazyIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1][]>>>;
+    }
+
+    /**
+     * Lazily emits each value paired with the one before it, as `[previous, current]`. The first value only starts the first pair.
+     */
+    pairwise() {
+        return this.window(2) as unknown as LazyIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],[GetLastMethodType<Methods>[1], GetLastMethodType<Methods>[1]]>>>;
+    }
 
-        return reduceExec;
+    /**
+     * Lazily groups runs of consecutive values that share a key (compared like Map keys) into arrays, in a single pass.
+     * Only the current run is buffered, and the last run is emitted once the upstream ends.
+     * Downstream callbacks receive the index of the run's first value.
+     */
+    groupAdjacent<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>) {
+        return this.withMethod({
+            fn: keyFn,
+            kind: 'groupAdjacent'
+        }) as unknown as LazyIterator<IterType, Push<Methods, MapFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1][]>>>;
+    }
+
+    /**
+     * Alias for groupAdjacent.
+     */
+    chunkBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>) {
+        return this.groupAdjacent(keyFn);
+    }
+
+    /**
+     * Lazily drops values that were already let through (compared like Map keys).
+     * Every value is remembered for the rest of the run unless `maxKeys` bounds how many are kept.
+     *
+     * @throws Error If maxKeys is not a positive integer.
+     */
+    distinct(options: DistinctOptions = {}) {
+        return this.withMethod({
+            fn: (x: any) => x,
+            kind: 'distinct',
+            keys: resolveDistinctOptions('distinct(options)', options)
+        }) as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily drops values whose key (compared like Map keys) was already let through.
+     * Every key is remembered for the rest of the run unless `maxKeys` bounds how many are kept.
+     *
+     * @throws Error If maxKeys is not a positive integer.
+     */
+    distinctBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>, options: DistinctOptions = {}) {
+        return this.withMethod({
+            fn: keyFn,
+            kind: 'distinct',
+            keys: resolveDistinctOptions('distinctBy(keyFn, options)', options)
+        }) as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily drops values equal to the last value let through, so runs of repeats collapse into one.
+     * `equals` defaults to comparing like Map keys.
+     */
+    distinctUntilChanged(equals: (previous: GetLastMethodType<Methods>[1], current: GetLastMethodType<Methods>[1]) => boolean = sameKey) {
+        return this.withMethod({
+            fn: equals,
+            kind: 'distinctUntilChanged'
+        }) as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Joins this pipeline with another input, both sorted by key, in a single pass, yielding `[value, other]` for every
+     * pair of values whose keys compare equal. Only the other input's values sharing the current key are buffered.
+     *
+     * @throws TypeError If key, otherKey or compare is not a function.
+     * @throws Error If the other input is not an iterator or iterable.
+     * @throws SortOrderError When either input yields a key that sorts before the previous one.
+     */
+    innerJoin<U, K>(other: Iterator<U> | Iterable<U>, options: SortedJoinOptions<GetLastMethodType<Methods>[1], U, K>) {
+        return this.sortedJoin<[GetLastMethodType<Methods>[1], U]>('innerJoin(other, options)', 'inner', other, options);
+    }
+
+    /**
+     * Like innerJoin, but also yields `[value, undefined]` for values of this pipeline that match nothing in the other input.
+     */
+    leftJoin<U, K>(other: Iterator<U> | Iterable<U>, options: SortedJoinOptions<GetLastMethodType<Methods>[1], U, K>) {
+        return this.sortedJoin<[GetLastMethodType<Methods>[1], U | undefined]>('leftJoin(other, options)', 'left', other, options);
+    }
+
+    /**
+     * Like innerJoin, but also yields `[value, undefined]` and `[undefined, other]` for values of either input that
+     * match nothing on the other side, in key order.
+     */
+    fullOuterJoin<U, K>(other: Iterator<U> | Iterable<U>, options: SortedJoinOptions<GetLastMethodType<Methods>[1], U, K>) {
+        return this.sortedJoin<[GetLastMethodType<Methods>[1] | undefined, U | undefined]>('fullOuterJoin(other, options)', 'fullOuter', other, options);
+    }
+
+    /**
+     * Diffs this pipeline, as the data before, against `other`, as the data after, yielding a record per key that says
+     * whether it was added, removed, changed or unchanged. By default both inputs must be sorted by key and are diffed in
+     * one pass holding one value per side; `sorted: false` accepts any order by indexing the smaller input. Keys are
+     * expected to be unique on each side.
+     *
+     * @throws TypeError If keyFn, equals or compare is not a function.
+     * @throws Error If the other input is not an iterator or iterable.
+     * @throws SortOrderError When a sorted input yields a key that sorts before the previous one.
+     */
+    diffBy<K>(other: Iterator<GetLastMethodType<Methods>[1]> | Iterable<GetLastMethodType<Methods>[1]>, keyFn: (x: GetLastMethodType<Methods>[1]) => K, options: DiffOptions<GetLastMethodType<Methods>[1], K> = {}) {
+        const method = 'diffBy(other, keyFn, options)';
+        const resolved = resolveDiffOptions(method, keyFn, options);
+        assertCombinable(method, [other], false);
+        return new LazyIterator<DiffRecord<GetLastMethodType<Methods>[1], K>>(diffIterables(method, this, other, resolved));
+    }
+
+    private sortedJoin<P>(method: string, mode: JoinMode, other: unknown, options: SortedJoinOptions<any, any, any>) {
+        const resolved = resolveSortedJoinOptions(method, options);
+        assertCombinable(method, [other], false);
+        return new LazyIterator<P>(sortedJoinIterables(method, mode, this, other, resolved));
+    }
+
+    /**
+     * Reduces values to a single result using the provided reducer and initial value.
+     * Returns a ReduceExecutor; the pipeline is folded one element at a time when execute() is called.
+     */
+    reduce<S>(cb: ReduceFunc<GetLastMethodType<Methods>[1],S>, initVal: S) {
+        return new ReduceExecutor<GetLastMethodType<Methods>[1], S>(this, cb, initVal);
     }
 
     /**
@@ -261,114 +863,435 @@ export class LazyIterator<IterType, Methods extends IteratorMethods<any,any>[] =
 
     /**
      * Creates multiple independent iterators (tees) from this iterator.
+     * `options` bounds the buffer kept for slower branches; see createTeeIterators. Each branch keeps the `inspect()`
+     * method reporting the buffer depth and the lag of every branch.
      *
-     * @throws Error If count is not a positive integer.
+     * @throws Error If count is not a positive integer, or the options are invalid.
      */
-    tee(count: number) {
-        return createTeeIterators<GetLastMethodType<Methods>[1]>(this, count).map(v => LazyIterator.from(v))
+    tee(count: number, options?: TeeOptions) {
+        return createTeeIterators<GetLastMethodType<Methods>[1]>(this, count, options).map(v => Object.assign(LazyIterator.from(v), { inspect: v.inspect }))
     }
 
     /**
-     * Collects all values into an array (alias for toArray).
+     * Collects all values into an array (alias for toArray). The pipeline is closed when it throws.
      */
     collect(): GetLastMethodType<Methods>[1][] {
         const out: GetLastMethodType<Methods>[] = []
-        for(const elem of this) {
-            out.push(elem)
+        let finished = false;
+        try {
+            for(let res = this.next(); !res.done; res = this.next()) {
+                out.push(res.value)
+            }
+            finished = true;
+        } finally {
+            if(!finished) this.return();
         }
         return out
     }
 
     /**
-     * Takes the first n values from the iterator.
-     *
-     * @throws Error If n is negative or not a number.
+     * Feeds every value to `step` as it is pulled, without collecting the values first, and returns `acc`.
+     * The pipeline is closed when it or `step` throws.
      */
-    take(n: number): GetLastMethodType<Methods>[1][] {
-        if (typeof n !== 'number' || n < 0) throw new Error('take(n): n must be a non-negative number');
-        const out: GetLastMethodType<Methods>[1][] = [];
-        let count = 0;
-        for (const elem of this) {
-            if (count++ >= n) break;
-            out.push(elem);
+    private fold<S>(acc: S, step: (acc: S, value: GetLastMethodType<Methods>[1], idx: number) => void): S {
+        let idx = 0;
+        let finished = false;
+        try {
+            for(let res = this.next(); !res.done; res = this.next()) {
+                step(acc, res.value, idx++);
+            }
+            finished = true;
+        } finally {
+            if(!finished) this.return();
         }
-        return out;
+        return acc;
+    }
+
+    /**
+     * Groups values into a Map from each key to the values with that key, in order.
+     */
+    groupBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>): Map<K, GetLastMethodType<Methods>[1][]> {
+        return this.fold(new Map<K, GetLastMethodType<Methods>[1][]>(), (groups, value, idx) => {
+            const key = keyFn(value, idx);
+            const group = groups.get(key);
+            if(group) group.push(value);
+            else groups.set(key, [value]);
+        });
     }
 
     /**
-     * Skips the first n values from the iterator.
+     * Counts values per key into a Map.
+     */
+    countBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1],K>): Map<K, number> {
+        return this.fold(new Map<K, number>(), (counts, value, idx) => {
+            const key = keyFn(value, idx);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        });
+    }
+
+    /**
+     * Splits values into those that pass the predicate and those that fail it, returned as `[pass, fail]`.
+     */
+    partition<S extends GetLastMethodType<Methods>[1]>(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => x is S): [S[], Exclude<GetLastMethodType<Methods>[1], S>[]];
+    partition(predicate: FilterFunc<GetLastMethodType<Methods>[1]>): [GetLastMethodType<Methods>[1][], GetLastMethodType<Methods>[1][]];
+    partition(predicate: FilterFunc<GetLastMethodType<Methods>[1]>): [GetLastMethodType<Methods>[1][], GetLastMethodType<Methods>[1][]] {
+        return this.fold([[], []] as [GetLastMethodType<Methods>[1][], GetLastMethodType<Methods>[1][]], (parts, value, idx) => {
+            parts[predicate(value, idx) ? 0 : 1].push(value);
+        });
+    }
+
+    /**
+     * Collects [key, value] entries into a Map. Later entries overwrite earlier ones with the same key.
      *
-     * @throws Error If n is negative or not a number.
+     * @throws TypeError If a value is not an entry.
      */
-    drop(n: number): GetLastMethodType<Methods>[1][] {
-        if (typeof n !== 'number' || n < 0) throw new Error('drop(n): n must be a non-negative number');
-        const out: GetLastMethodType<Methods>[1][] = [];
-        let count = 0;
-        for (const elem of this) {
-            if (count++ < n) continue;
-            out.push(elem);
-        }
-        return out;
+    toMap(): Map<EntryKey<GetLastMethodType<Methods>[1]>, EntryValue<GetLastMethodType<Methods>[1]>> {
+        return this.fold(new Map(), (map, value) => {
+            const [key, val] = toEntry('toMap()', value);
+            map.set(key, val);
+        });
     }
 
     /**
-     * Takes values while the predicate returns true.
+     * Collects values into a Set, dropping duplicates.
      */
-    takeWhile(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => boolean): GetLastMethodType<Methods>[1][] {
-        const out: GetLastMethodType<Methods>[1][] = [];
-        let idx = 0;
-        for (const elem of this) {
-            if (!predicate(elem, idx)) break;
-            out.push(elem);
-            idx++;
-        }
-        return out;
+    toSet(): Set<GetLastMethodType<Methods>[1]> {
+        return this.fold(new Set<GetLastMethodType<Methods>[1]>(), (set, value) => {
+            set.add(value);
+        });
+    }
+
+    /**
+     * Collects [key, value] entries into a plain object, like Object.fromEntries. Later entries overwrite earlier ones.
+     *
+     * @throws TypeError If a value is not an entry.
+     */
+    toObject(): Record<EntryKey<GetLastMethodType<Methods>[1]> & PropertyKey, EntryValue<GetLastMethodType<Methods>[1]>> {
+        return this.fold({} as Record<PropertyKey, any>, (obj, value) => {
+            const [key, val] = toEntry('toObject()', value);
+            obj[key] = val;
+        });
+    }
+
+    /**
+     * Returns the k largest values according to `compare` (defaults to `<` and `>`), largest first.
+     * Only k values are held at a time, in a heap; between values that compare equal, earlier ones are kept.
+     *
+     * @throws Error If k is not a non-negative integer.
+     */
+    topK(k: number, compare: (a: GetLastMethodType<Methods>[1], b: GetLastMethodType<Methods>[1]) => number = naturalOrder): GetLastMethodType<Methods>[1][] {
+        assertTopK(k);
+        return this.fold(new TopK<GetLastMethodType<Methods>[1]>(k, compare), (top, value) => {
+            top.add(value);
+        }).result();
     }
 
     /**
-     * Skips values while the predicate returns true, then collects the rest.
+     * Sorts the values stably by `compare` into a LazyAsyncIterator, without holding more than `maxInMemory` of them
+     * at a time. Larger inputs are sorted in runs that are spilled to temporary files and lazily merged back; the files
+     * are removed once the sorted pipeline finishes or is closed. Nothing is pulled until the sorted pipeline is.
+     *
+     * @throws TypeError If compare, serialize or deserialize is not a function.
+     * @throws Error If maxInMemory is not a positive integer.
      */
-    dropWhile(predicate: (x: GetLastMethodType<Methods>[1], idx: number) => boolean): GetLastMethodType<Methods>[1][] {
-        const out: GetLastMethodType<Methods>[1][] = [];
+    sortBy(compare: (a: GetLastMethodType<Methods>[1], b: GetLastMethodType<Methods>[1]) => number, options: SortByOptions<GetLastMethodType<Methods>[1]> = {}) {
+        const resolved = resolveSortByOptions(compare, options);
+        return new LazyAsyncIterator<GetLastMethodType<Methods>[1]>(externalSortIterable(this, compare, resolved));
+    }
+
+    /**
+     * Pulls values until `visit` returns true and reports whether it did. Stopping early closes the pipeline,
+     * like breaking out of a for...of loop, and so does a throw from the pipeline or `visit`.
+     */
+    private search(visit: (value: GetLastMethodType<Methods>[1], idx: number) => boolean): boolean {
         let idx = 0;
-        let dropping = true;
-        for (const elem of this) {
-            if (dropping && predicate(elem, idx)) {
-                idx++;
-                continue;
+        let finished = false;
+        try {
+            for(let res = this.next(); !res.done; res = this.next()) {
+                if(visit(res.value, idx++)) return true;
             }
-            dropping = false;
-            out.push(elem);
-            idx++;
+            finished = true;
+        } finally {
+            if(!finished) this.return();
         }
-        return out;
+        return false;
     }
-}
 
-type ExtractLazyIteratorMethods<T extends unknown> =
-    T extends LazyIterator<infer _, infer Q> 
-    ? Q
-    : never;
+    /**
+     * Returns the first value that passes the predicate, or undefined if none does. Stops pulling at the first match
+     * and closes the pipeline.
+     */
+    find<S extends GetLastMethodType<Methods>[1]>(pred: (x: GetLastMethodType<Methods>[1], idx: number) => x is S): S | undefined;
+    find(pred: FilterFunc<GetLastMethodType<Methods>[1]>): GetLastMethodType<Methods>[1] | undefined;
+    find(pred: FilterFunc<GetLastMethodType<Methods>[1]>): GetLastMethodType<Methods>[1] | undefined {
+        let found: GetLastMethodType<Methods>[1] | undefined;
+        this.search((value, idx) => {
+            if(!pred(value, idx)) return false;
+            found = value;
+            return true;
+        });
+        return found;
+    }
+
+    /**
+     * Returns the position of the first value that passes the predicate, or -1 if none does, which tells a match of
+     * undefined apart from no match. Stops pulling at the first match and closes the pipeline.
+     */
+    findIndex(pred: FilterFunc<GetLastMethodType<Methods>[1]>): number {
+        let found = -1;
+        this.search((value, idx) => {
+            if(!pred(value, idx)) return false;
+            found = idx;
+            return true;
+        });
+        return found;
+    }
 
+    /**
+     * Returns true if any value passes the predicate. Stops pulling at the first match and closes the pipeline.
+     */
+    some(pred: FilterFunc<GetLastMethodType<Methods>[1]>): boolean {
+        return this.search((value, idx) => !!pred(value, idx));
+    }
 
- /**
- * Executes a reduce operation on a LazyIterator chain.
+    /**
+     * Returns true if every value passes the predicate (including when there are none). Stops pulling at the first
+     * value that fails and closes the pipeline.
+     */
+    every(pred: FilterFunc<GetLastMethodType<Methods>[1]>): boolean {
+        return !this.search((value, idx) => !pred(value, idx));
+    }
+
+    /**
+     * Returns the first value, or undefined if there is none. Pulls a single value and closes the pipeline.
+     */
+    first(): GetLastMethodType<Methods>[1] | undefined {
+        return this.find(() => true);
+    }
+
+    /**
+     * Returns the last value, or undefined if there is none. Pulls every value, holding only the latest.
+     */
+    last(): GetLastMethodType<Methods>[1] | undefined {
+        return this.fold({ value: undefined as GetLastMethodType<Methods>[1] | undefined }, (acc, value) => {
+            acc.value = value;
+        }).value;
+    }
+
+    /**
+     * Returns true if any value equals the given one (compared like Map keys, so NaN matches NaN).
+     * Stops pulling at the first match and closes the pipeline.
+     */
+    includes(value: GetLastMethodType<Methods>[1]): boolean {
+        return this.search(elem => sameKey(elem, value));
+    }
+
+    /**
+     * Counts the values, or only those that pass the predicate when one is given. Pulls every value.
+     */
+    count(pred?: FilterFunc<GetLastMethodType<Methods>[1]>): number {
+        return this.fold({ n: 0 }, (acc, value, idx) => {
+            if(!pred || pred(value, idx)) acc.n++;
+        }).n;
+    }
+
+    /**
+     * Returns true if the pipeline yields no values. Pulls at most one value and closes the pipeline.
+     */
+    isEmpty(): boolean {
+        return !this.search(() => true);
+    }
+
+    /**
+     * Sums the values, or what `fn` maps them to. Numbers are added with compensated (Neumaier) summation, so rounding
+     * errors do not build up over long streams; bigints are summed exactly into a bigint. Returns 0 when there are no values.
+     *
+     * @throws TypeError If a value is neither a number nor a bigint, or numbers and bigints are mixed.
+     */
+    sum(): Summed<GetLastMethodType<Methods>[1]>;
+    sum<N extends number | bigint>(fn: MapFunc<GetLastMethodType<Methods>[1], N>): Summed<N>;
+    sum(fn?: MapFunc<GetLastMethodType<Methods>[1], number | bigint>): number | bigint {
+        return this.fold(new Summation('sum()'), (acc, value, idx) => {
+            acc.add(fn ? fn(value, idx) : value);
+        }).result;
+    }
+
+    /**
+     * Returns the mean of the values, or of what `fn` maps them to, from their compensated sum. Returns NaN when there
+     * are no values.
+     *
+     * @throws TypeError If a value is not a number.
+     */
+    average(fn?: MapFunc<GetLastMethodType<Methods>[1], number>): number {
+        return this.fold(new RunningStats('average()'), (acc, value, idx) => {
+            acc.add(fn ? fn(value, idx) : value);
+        }).average;
+    }
+
+    /**
+     * Returns the count, sum, mean, population variance, standard deviation, minimum and maximum of the values, or of
+     * what `fn` maps them to, in one pass. The variance uses Welford's algorithm, which stays accurate when the values
+     * are large compared to their spread.
+     *
+     * @throws TypeError If a value is not a number.
+     */
+    stats(fn?: MapFunc<GetLastMethodType<Methods>[1], number>): Stats {
+        return this.fold(new RunningStats('stats()'), (acc, value, idx) => {
+            acc.add(fn ? fn(value, idx) : value);
+        }).result;
+    }
+
+    /**
+     * Returns the smallest value, compared with `<` and `>`, or undefined if there is none.
+     */
+    min(): GetLastMethodType<Methods>[1] | undefined {
+        return this.minBy(x => x);
+    }
+
+    /**
+     * Returns the largest value, compared with `<` and `>`, or undefined if there is none.
+     */
+    max(): GetLastMethodType<Methods>[1] | undefined {
+        return this.maxBy(x => x);
+    }
+
+    /**
+     * Returns the value with the smallest key, compared with `<` and `>`, or undefined if there is none.
+     * The first of several values with the same key wins.
+     */
+    minBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1], K>): GetLastMethodType<Methods>[1] | undefined {
+        return this.fold(new Extremum<GetLastMethodType<Methods>[1]>(-1), (acc, value, idx) => {
+            acc.add(value, keyFn(value, idx));
+        }).value;
+    }
+
+    /**
+     * Returns the value with the largest key, compared with `<` and `>`, or undefined if there is none.
+     * The first of several values with the same key wins.
+     */
+    maxBy<K>(keyFn: MapFunc<GetLastMethodType<Methods>[1], K>): GetLastMethodType<Methods>[1] | undefined {
+        return this.fold(new Extremum<GetLastMethodType<Methods>[1]>(1), (acc, value, idx) => {
+            acc.add(value, keyFn(value, idx));
+        }).value;
+    }
+
+    /**
+     * Estimates the number of distinct values with a HyperLogLog sketch, in memory fixed by its precision.
+     * Returns the sketch: call `count()` for the estimate, or merge and serialize it to combine counts across workers.
+     *
+     * @throws Error If precision is not an integer from 4 to 18.
+     */
+    approxDistinct(options: HyperLogLogOptions = {}): HyperLogLog {
+        return this.fold(new HyperLogLog(options), (sketch, value) => {
+            sketch.add(value);
+        });
+    }
+
+    /**
+     * Summarizes the distribution of the values, which must be finite numbers, in a t-digest of bounded size.
+     * Returns the digest: call `quantile(q)` for estimates such as the p99, or merge and serialize it to combine workers.
+     *
+     * @throws Error If compression is not a number of at least 10.
+     * @throws TypeError If a value is not a finite number.
+     */
+    approxQuantiles(options: TDigestOptions = {}): TDigest {
+        return this.fold(new TDigest(options), (digest, value) => {
+            digest.add(value);
+        });
+    }
+
+    /**
+     * Counts the most frequent values with a Space-Saving sketch that holds at most `capacity` of them.
+     * Returns the sketch: call `top(n)` for the heavy hitters, or merge and serialize it to combine workers.
+     *
+     * @throws Error If capacity is not a positive integer.
+     */
+    heavyHitters(options: SpaceSavingOptions = {}): SpaceSaving<GetLastMethodType<Methods>[1]> {
+        return this.fold(new SpaceSaving<GetLastMethodType<Methods>[1]>(options), (sketch, value) => {
+            sketch.add(value);
+        });
+    }
+
+    /**
+     * Lazily takes the first n values. Once n values have passed this stage, the pipeline
+     * stops pulling from the upstream iterator.
+     *
+     * @throws Error If n is negative or not a number.
+     */
+    take(n: number) {
+        if (typeof n !== 'number' || n < 0) throw new Error('take(n): n must be a non-negative number');
+        return this.withMethod({
+            fn: (x: any) => x,
+            kind: 'take',
+            limit: n
+        }) as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily skips the first n values and passes through the rest.
+     *
+     * @throws Error If n is negative or not a number.
+     */
+    drop(n: number) {
+        if (typeof n !== 'number' || n < 0) throw new Error('drop(n): n must be a non-negative number');
+        return this.withMethod({
+            fn: (x: any) => x,
+            kind: 'drop',
+            limit: n
+        }) as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily passes values through while the predicate returns true. The first value that fails
+     * the predicate ends the pipeline.
+     */
+    takeWhile(predicate: FilterFunc<GetLastMethodType<Methods>[1]>) {
+        return this.withMethod({
+            fn: predicate,
+            kind: 'takeWhile'
+        }) as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+
+    /**
+     * Lazily skips values while the predicate returns true, then passes through the rest.
+     */
+    dropWhile(predicate: FilterFunc<GetLastMethodType<Methods>[1]>) {
+        return this.withMethod({
+            fn: predicate,
+            kind: 'dropWhile'
+        }) as unknown as LazyIterator<IterType, Push<Methods, FilterFunc<GetLastMethodType<Methods>[1],GetLastMethodType<Methods>[1]>>>;
+    }
+}
+
+/**
+ * Executes a reduce operation on a LazyIterator chain, folding one element at a time in constant memory.
  */
-class ReduceExecutor<R extends any, S extends IteratorMethods<any,any>, T extends LazyIterator<R, S[]>> {
-    private lazyIterator: T;
+class ReduceExecutor<T, S> {
+    private lazyIterator: LazyIterator<any, any>;
+    private fn: ReduceFunc<T,S>;
+    private initVal: S;
 
-    constructor(lazyIterator: T) {
+    constructor(lazyIterator: LazyIterator<any, any>, fn: ReduceFunc<T,S>, initVal: S) {
         this.lazyIterator = lazyIterator;
+        this.fn = fn;
+        this.initVal = initVal;
     }
 
     /**
-     * Executes the reduce operation and returns the result.
+     * Executes the reduce operation and returns the result. The pipeline is closed when it or the reducer throws.
      */
-    execute() {
-        const reduceMethod = this.lazyIterator._methods.at(-1)!;
-        this.lazyIterator._methods.slice(0,-1);
-        const array = this.lazyIterator.collect();
-        const result = array.reduce(reduceMethod.fn as unknown as ReduceFunc<GetLastMethodType<ExtractLazyIteratorMethods<T>>[0],GetLastMethodType<ExtractLazyIteratorMethods<T>>[1]>, reduceMethod.initVal);
-        return result as unknown as GetLastMethodType<ExtractLazyIteratorMethods<T>>[1]
+    execute(): S {
+        let acc = this.initVal;
+        let idx = 0;
+        let finished = false;
+        try {
+            for(let res = this.lazyIterator.next(); !res.done; res = this.lazyIterator.next()) {
+                acc = this.fn(acc, res.value, idx++);
+            }
+            finished = true;
+        } finally {
+            if(!finished) this.lazyIterator.return();
+        }
+        return acc;
     }
 }
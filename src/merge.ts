@@ -0,0 +1,198 @@
+/**
+ * Options for LazyAsyncIterator.merge.
+ *
+ * `concurrency` is how many inputs are pulled from at once (all of them by default); the rest start as earlier ones finish.
+ * `tagged` wraps each value as `{ source, value }`, where `source` is the position of the input it came from.
+ * `errors` is 'failFast' (the default) to reject on the first input that fails and close the others, or 'continue' to
+ * drop a failed input and keep merging the rest. In 'continue' mode each failure is passed to `onError`; without one,
+ * the merged iterator rejects with an AggregateError of the failures once every other input is done.
+ */
+export type MergeOptions = {
+    concurrency?: number,
+    tagged?: boolean,
+    errors?: 'failFast' | 'continue',
+    onError?: (error: unknown, source: number) => void
+};
+
+/**
+ * A value tagged with the position of the merge input it came from.
+ */
+export type Tagged<T> = { source: number, value: T };
+
+type ResolvedMergeOptions = Required<Omit<MergeOptions, 'onError'>> & Pick<MergeOptions, 'onError'>;
+
+/**
+ * The settled next() call of a merge input.
+ */
+type Settled =
+    { source: number, failed: false, result: IteratorResult<any> } |
+    { source: number, failed: true, error: unknown };
+
+/**
+ * An input being pulled from, with its in-flight next() call.
+ */
+type ActiveInput = {
+    iterator: Iterator<any> | AsyncIterator<any>,
+    pending: Promise<Settled>
+};
+
+/**
+ * Returns true if the value looks like merge options rather than an input.
+ */
+export function isMergeOptions(value: unknown): value is MergeOptions {
+    const candidate = value as any;
+    return typeof candidate === 'object' && candidate !== null &&
+        typeof candidate.next !== 'function' &&
+        typeof candidate[Symbol.iterator] !== 'function' &&
+        typeof candidate[Symbol.asyncIterator] !== 'function';
+}
+
+/**
+ * Validates merge options and fills in their defaults.
+ *
+ * @throws Error If concurrency is not a positive integer or Infinity, or errors is not a known policy.
+ * @throws TypeError If onError is given but is not a function.
+ */
+export function resolveMergeOptions(options: MergeOptions = {}): ResolvedMergeOptions {
+    const { concurrency = Infinity, tagged = false, errors = 'failFast', onError } = options;
+    if (concurrency !== Infinity && !(Number.isInteger(concurrency) && concurrency >= 1))
+        throw new Error('LazyAsyncIterator.merge(...inputs, options): concurrency must be a positive integer');
+    if (errors !== 'failFast' && errors !== 'continue')
+        throw new Error(`LazyAsyncIterator.merge(...inputs, options): errors must be 'failFast' or 'continue'`);
+    if (onError !== undefined && typeof onError !== 'function')
+        throw new TypeError('LazyAsyncIterator.merge(...inputs, options): onError must be a function');
+    return { concurrency, tagged, errors, onError };
+}
+
+/**
+ * Returns an async iterable whose iterators merge the given sync or async inputs. Each pass opens the inputs again,
+ * so re-iterable inputs can be merged more than once.
+ */
+export function mergeAsyncIterables(inputs: unknown[], options: ResolvedMergeOptions): AsyncIterable<any> {
+    return { [Symbol.asyncIterator]: () => new MergedIterator(inputs, options) };
+}
+
+/**
+ * Merges several sync or async iterators into one async iterator that yields values in the order they arrive.
+ *
+ * Every active input has exactly one next() call in flight, and the merged next() resolves with whichever settles first.
+ * Inputs are opened in order as earlier ones finish, so at most `concurrency` are active at a time.
+ */
+class MergedIterator implements AsyncIterableIterator<any> {
+    private inputs: unknown[];
+    private options: ResolvedMergeOptions;
+    /**
+     * The position of the next input to open.
+     */
+    private nextInput: number;
+    private active: Map<number, ActiveInput>;
+    private failures: { error: unknown, source: number }[];
+    private finished: boolean;
+
+    constructor(inputs: unknown[], options: ResolvedMergeOptions) {
+        this.inputs = inputs;
+        this.options = options;
+        this.nextInput = 0;
+        this.active = new Map();
+        this.failures = [];
+        this.finished = false;
+    }
+
+    [Symbol.asyncIterator]() {
+        return this;
+    }
+
+    /**
+     * Returns the next value to arrive from any active input.
+     *
+     * @throws The error of the first input that fails, under the failFast policy.
+     * @throws AggregateError Once every input is done, if inputs failed under the continue policy without an onError handler.
+     */
+    async next(): Promise<IteratorResult<any>> {
+        while (!this.finished) {
+            this.activateInputs();
+
+            if (this.active.size === 0) {
+                this.finished = true;
+                if (this.failures.length > 0)
+                    throw new AggregateError(this.failures.map(f => f.error), `${this.failures.length} merged source(s) failed`);
+                return { done: true, value: undefined };
+            }
+
+            const settled = await Promise.race(Array.from(this.active.values(), input => input.pending));
+            if (this.finished) break;
+            const input = this.active.get(settled.source)!;
+
+            if (settled.failed) {
+                this.active.delete(settled.source);
+                if (this.options.errors === 'failFast') {
+                    await this.return();
+                    throw settled.error;
+                }
+                if (this.options.onError) this.options.onError(settled.error, settled.source);
+                else this.failures.push({ error: settled.error, source: settled.source });
+                continue;
+            }
+
+            if (settled.result.done) {
+                this.active.delete(settled.source);
+                continue;
+            }
+
+            input.pending = this.pull(settled.source, input.iterator);
+            const value = settled.result.value;
+            return { done: false, value: this.options.tagged ? { source: settled.source, value } : value };
+        }
+        return { done: true, value: undefined };
+    }
+
+    /**
+     * Opens inputs and starts pulling from them until `concurrency` are active or none are left.
+     */
+    private activateInputs() {
+        while (this.active.size < this.options.concurrency && this.nextInput < this.inputs.length) {
+            const source = this.nextInput++;
+            const input = this.inputs[source] as any;
+            const iterator: Iterator<any> | AsyncIterator<any> = typeof input.next === 'function'
+                ? input
+                : typeof input[Symbol.asyncIterator] === 'function'
+                    ? input[Symbol.asyncIterator]()
+                    : input[Symbol.iterator]();
+            this.active.set(source, { iterator, pending: this.pull(source, iterator) });
+        }
+    }
+
+    /**
+     * Starts a next() call on an input. Failures are captured on the result, so a call that fails while another
+     * input wins the race does not surface as an unhandled rejection.
+     */
+    private pull(source: number, iterator: Iterator<any> | AsyncIterator<any>): Promise<Settled> {
+        return Promise.resolve()
+            .then(() => iterator.next())
+            .then(
+                result => ({ source, failed: false, result }),
+                error => ({ source, failed: true, error })
+            );
+    }
+
+    /**
+     * Finishes the merged iterator and closes every active input, and every input not opened yet that is already an iterator.
+     * Inputs are closed without waiting for their in-flight next() calls, which may never settle for an idle feed.
+     */
+    async return(value?: any): Promise<IteratorResult<any>> {
+        if (!this.finished) {
+            this.finished = true;
+            const iterators = Array.from(this.active.values(), input => input.iterator);
+            for (const input of this.inputs.slice(this.nextInput) as any[]) {
+                if (typeof input.next === 'function') iterators.push(input);
+            }
+            this.active.clear();
+            for (const iterator of iterators) {
+                Promise.resolve()
+                    .then(() => iterator.return?.())
+                    .catch(() => undefined);
+            }
+        }
+        return { done: true, value };
+    }
+}
@@ -0,0 +1,64 @@
+import { sleep } from './sleep';
+
+/**
+ * Options for a rateLimit stage: at most `perInterval` elements pass every `intervalMs` milliseconds on average,
+ * and up to `burst` of them (defaults to `perInterval`) may pass back to back after a quiet period.
+ */
+export type RateLimitOptions = { perInterval: number, intervalMs: number, burst?: number };
+
+export type ResolvedRateLimitOptions = Required<RateLimitOptions>;
+
+/**
+ * Validates rate limit options and fills in their defaults.
+ *
+ * @throws Error If perInterval or burst is not a positive integer, or intervalMs is not a positive number.
+ */
+export function resolveRateLimitOptions(method: string, options: RateLimitOptions): ResolvedRateLimitOptions {
+    const { perInterval, intervalMs, burst = perInterval } = options ?? {};
+    if (!Number.isInteger(perInterval) || perInterval < 1)
+        throw new Error(`${method}: perInterval must be a positive integer`);
+    if (!(typeof intervalMs === 'number' && intervalMs > 0))
+        throw new Error(`${method}: intervalMs must be a positive number of milliseconds`);
+    if (!Number.isInteger(burst) || burst < 1)
+        throw new Error(`${method}: burst must be a positive integer`);
+    return { perInterval, intervalMs, burst };
+}
+
+/**
+ * A token bucket that starts full, holds up to `burst` tokens and refills at `perInterval` tokens every `intervalMs`.
+ */
+export class TokenBucket {
+    private options: ResolvedRateLimitOptions;
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(options: ResolvedRateLimitOptions) {
+        this.options = options;
+        this.tokens = options.burst;
+        this.lastRefill = Date.now();
+    }
+
+    private refill() {
+        const now = Date.now();
+        const { perInterval, intervalMs, burst } = this.options;
+        this.tokens = Math.min(burst, this.tokens + (now - this.lastRefill) * perInterval / intervalMs);
+        this.lastRefill = now;
+    }
+
+    /**
+     * Takes a token, waiting until one is available.
+     *
+     * @throws AbortError If the signal aborts while waiting.
+     */
+    async acquire(signal: AbortSignal) {
+        while (true) {
+            this.refill();
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            const { perInterval, intervalMs } = this.options;
+            await sleep(Math.ceil((1 - this.tokens) * intervalMs / perInterval), signal);
+        }
+    }
+}
@@ -0,0 +1,76 @@
+import { AbortError, RetryAttempt, RetryError } from './errors';
+import { sleep } from './sleep';
+
+/**
+ * How a failed async stage call is retried.
+ *
+ * - `attempts`: the total number of calls, including the first one.
+ * - `backoff`: `exponential` (the default) waits `baseMs * 2^(attempt - 1)`, `fixed` waits `baseMs` every time.
+ * - `baseMs`: the first delay, 100ms by default. `maxMs` caps every delay, 30s by default.
+ * - `jitter`: randomly shortens each delay by up to this fraction of it (`true` means 1), to spread out retries.
+ * - `retryIf`: decides whether an error is worth retrying. Every error is retried by default.
+ */
+export type RetryOptions = {
+    attempts: number,
+    backoff?: 'exponential' | 'fixed',
+    baseMs?: number,
+    maxMs?: number,
+    jitter?: boolean | number,
+    retryIf?: (error: unknown, attempt: number) => boolean
+};
+
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'jitter'>> & { jitter: number };
+
+/**
+ * Validates retry options and fills in their defaults.
+ *
+ * @throws Error If attempts is not a positive integer, a delay is negative, jitter is outside 0..1, or retryIf is not a function.
+ */
+export function resolveRetryOptions(method: string, options: RetryOptions): ResolvedRetryOptions {
+    const { attempts, backoff = 'exponential', baseMs = 100, maxMs = 30_000, jitter = false, retryIf = () => true } = options;
+    if (!Number.isInteger(attempts) || attempts < 1)
+        throw new Error(`${method}(cb, options): retry.attempts must be a positive integer`);
+    if (backoff !== 'exponential' && backoff !== 'fixed')
+        throw new Error(`${method}(cb, options): retry.backoff must be 'exponential' or 'fixed'`);
+    if (!(baseMs >= 0) || !(maxMs >= 0))
+        throw new Error(`${method}(cb, options): retry.baseMs and retry.maxMs must be non-negative numbers`);
+    const jitterFraction = jitter === true ? 1 : jitter === false ? 0 : jitter;
+    if (!(jitterFraction >= 0 && jitterFraction <= 1))
+        throw new Error(`${method}(cb, options): retry.jitter must be a boolean or a number between 0 and 1`);
+    if (typeof retryIf !== 'function')
+        throw new Error(`${method}(cb, options): retry.retryIf must be a function`);
+    return { attempts, backoff, baseMs, maxMs, jitter: jitterFraction, retryIf };
+}
+
+/**
+ * Returns how long to wait after the given failed attempt (1 for the first call) before trying again.
+ */
+export function backoffDelay(options: ResolvedRetryOptions, attempt: number) {
+    const delay = Math.min(options.maxMs, options.backoff === 'fixed' ? options.baseMs : options.baseMs * 2 ** (attempt - 1));
+    return Math.round(delay * (1 - options.jitter * Math.random()));
+}
+
+/**
+ * Calls `call` until it succeeds, waiting between attempts as the options describe. Retrying stops as soon as
+ * the signal aborts; a call that fails because of the abort is not counted as a failed attempt.
+ *
+ * @throws RetryError With the history of every attempt, once the attempts run out or retryIf declines an error.
+ * @throws AbortError If the signal aborts during a call or while waiting to retry.
+ */
+export async function withRetry<T>(call: () => Promise<T>, options: ResolvedRetryOptions, signal: AbortSignal): Promise<T> {
+    const history: RetryAttempt[] = [];
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            if (signal.aborted) throw new AbortError(signal.reason);
+            if (attempt >= options.attempts || !options.retryIf(error, attempt)) {
+                history.push({ attempt, error });
+                throw new RetryError(history);
+            }
+            const retryDelay = backoffDelay(options, attempt);
+            history.push({ attempt, error, retryDelay });
+            await sleep(retryDelay, signal);
+        }
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * A growable FIFO buffer backed by a circular array.
+ *
+ * push and shift are amortized O(1): the backing array doubles when full and is never compacted,
+ * so removing from the front never moves the remaining elements.
+ *
+ * @template T The type of buffered elements.
+ */
+export class RingBuffer<T> {
+    private slots: (T | undefined)[];
+    private start: number;
+    private size: number;
+
+    constructor(initialCapacity: number = 16) {
+        let capacity = 1;
+        while(capacity < initialCapacity) capacity *= 2;
+        this.slots = new Array(capacity);
+        this.start = 0;
+        this.size = 0;
+    }
+
+    /**
+     * The number of buffered elements.
+     */
+    get length() {
+        return this.size;
+    }
+
+    /**
+     * Appends a value to the back of the buffer, growing it if it is full.
+     */
+    push(value: T) {
+        if(this.size === this.slots.length) this.grow();
+        this.slots[(this.start + this.size) & (this.slots.length - 1)] = value;
+        this.size++;
+    }
+
+    /**
+     * Removes and returns the value at the front of the buffer, or undefined if it is empty.
+     */
+    shift(): T | undefined {
+        if(this.size === 0) return undefined;
+        const value = this.slots[this.start];
+        // Release the slot so the buffer does not keep consumed values alive
+        this.slots[this.start] = undefined;
+        this.start = (this.start + 1) & (this.slots.length - 1);
+        this.size--;
+        return value;
+    }
+
+    /**
+     * Returns the value at the given offset from the front of the buffer.
+     */
+    get(offset: number): T {
+        return this.slots[(this.start + offset) & (this.slots.length - 1)] as T;
+    }
+
+    /**
+     * Replaces the value at the given offset from the front of the buffer.
+     */
+    set(offset: number, value: T) {
+        this.slots[(this.start + offset) & (this.slots.length - 1)] = value;
+    }
+
+    /**
+     * Removes every value from the buffer.
+     */
+    clear() {
+        this.slots = new Array(this.slots.length);
+        this.start = 0;
+        this.size = 0;
+    }
+
+    /**
+     * Doubles the capacity, moving the values to the front of the new backing array in order.
+     */
+    private grow() {
+        const slots: (T | undefined)[] = new Array(this.slots.length * 2);
+        for(let i = 0; i < this.size; i++) {
+            slots[i] = this.get(i);
+        }
+        this.slots = slots;
+        this.start = 0;
+    }
+}
@@ -0,0 +1,519 @@
+/**
+ * Options for a HyperLogLog distinct counter.
+ *
+ * `precision` (4 to 18, defaults to 14) is the number of hash bits that pick a register. The sketch keeps 2^precision
+ * one-byte registers, and its relative standard error is about 1.04 / sqrt(2^precision): 0.8% at the default, in 16 KiB.
+ */
+export type HyperLogLogOptions = { precision?: number };
+
+/**
+ * Options for a t-digest quantile sketch.
+ *
+ * `compression` (defaults to 100) bounds the number of centroids to roughly 2 × compression. Higher values are more
+ * accurate; the error is smallest near the extremes, where one-in-a-thousand quantiles like p99.9 are still close.
+ */
+export type TDigestOptions = { compression?: number };
+
+/**
+ * Options for a Space-Saving heavy hitters sketch.
+ *
+ * `capacity` (defaults to 100) is the number of keys counted at a time. Every key seen more than total / capacity times
+ * is guaranteed to be among them, and each count is over by at most total / capacity.
+ */
+export type SpaceSavingOptions = { capacity?: number };
+
+/**
+ * A key reported by a Space-Saving sketch. Its true count is between `count - error` and `count`.
+ */
+export type HeavyHitter<K> = { key: K, count: number, error: number };
+
+export type SerializedHyperLogLog = { type: 'hyperLogLog', precision: number, registers: string };
+export type SerializedTDigest = { type: 'tDigest', compression: number, min: number | null, max: number | null, centroids: [number, number][] };
+export type SerializedSpaceSaving<K> = { type: 'spaceSaving', capacity: number, total: number, counters: [K, number, number][] };
+
+/**
+ * Returns a string that identifies a value for hashing: primitives by type and value, objects by their JSON.
+ */
+function hashKey(value: unknown): string {
+    if (typeof value === 'object' && value !== null) return 'object:' + JSON.stringify(value);
+    return typeof value + ':' + String(value);
+}
+
+/**
+ * MurmurHash3's mixing steps applied to the UTF-16 code units of a string, returning an unsigned 32-bit hash.
+ */
+function murmur32(key: string, seed: number): number {
+    let h = seed;
+    for (let i = 0; i < key.length; i++) {
+        let k = Math.imul(key.charCodeAt(i), 0xcc9e2d51);
+        k = Math.imul((k << 15) | (k >>> 17), 0x1b873593);
+        h ^= k;
+        h = Math.imul((h << 13) | (h >>> 19), 5) + 0xe6546b64;
+    }
+    h ^= key.length;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Throws unless json is an object with the given type tag.
+ *
+ * @throws TypeError If json is not a serialized sketch of that type.
+ */
+function assertSerialized(method: string, json: unknown, type: string): asserts json is Record<string, unknown> {
+    if (typeof json !== 'object' || json === null || (json as any).type !== type)
+        throw new TypeError(`${method}: json must be a serialized ${type} sketch`);
+}
+
+/**
+ * Estimates the number of distinct values in a stream with the HyperLogLog algorithm, in memory fixed by its precision.
+ *
+ * Values are hashed by type and value, and objects by their JSON, so `1` and `'1'` are different values while two
+ * objects with the same JSON are the same. Sketches with the same precision can be merged, for example across workers,
+ * and the merged sketch estimates the distinct count of all the values added to either.
+ */
+export class HyperLogLog {
+    readonly precision: number;
+    private registers: Uint8Array;
+
+    /**
+     * @throws Error If precision is not an integer from 4 to 18.
+     */
+    constructor(options: HyperLogLogOptions = {}) {
+        const { precision = 14 } = options ?? {};
+        if (!Number.isInteger(precision) || precision < 4 || precision > 18)
+            throw new Error('HyperLogLog: precision must be an integer from 4 to 18');
+        this.precision = precision;
+        this.registers = new Uint8Array(1 << precision);
+    }
+
+    add(value: unknown) {
+        const key = hashKey(value);
+        const high = murmur32(key, 0x9747b28c);
+        const low = murmur32(key, 0x5bd1e995);
+        const index = high >>> (32 - this.precision);
+        // The rank is the position of the first set bit in the 64 - precision hash bits left after the index
+        const rest = (high << this.precision) >>> 0;
+        const rank = rest !== 0
+            ? Math.clz32(rest) + 1
+            : 32 - this.precision + (low !== 0 ? Math.clz32(low) + 1 : 33);
+        if (rank > this.registers[index]) this.registers[index] = rank;
+    }
+
+    /**
+     * The estimated number of distinct values added. Small counts are estimated by linear counting, which is nearly exact.
+     */
+    count(): number {
+        const m = this.registers.length;
+        let sum = 0;
+        let zeros = 0;
+        for (const register of this.registers) {
+            sum += 2 ** -register;
+            if (register === 0) zeros++;
+        }
+        const alpha = m === 16 ? 0.673 : m === 32 ? 0.697 : m === 64 ? 0.709 : 0.7213 / (1 + 1.079 / m);
+        const estimate = alpha * m * m / sum;
+        if (estimate <= 2.5 * m && zeros > 0) return Math.round(m * Math.log(m / zeros));
+        return Math.round(estimate);
+    }
+
+    /**
+     * Adds the values counted by another sketch to this one, and returns this sketch.
+     *
+     * @throws Error If the sketches have different precisions.
+     */
+    merge(other: HyperLogLog): this {
+        if (other.precision !== this.precision)
+            throw new Error(`HyperLogLog.merge(other): cannot merge precision ${other.precision} into precision ${this.precision}`);
+        for (let i = 0; i < this.registers.length; i++) {
+            if (other.registers[i] > this.registers[i]) this.registers[i] = other.registers[i];
+        }
+        return this;
+    }
+
+    /**
+     * Returns a JSON-safe copy of the sketch, with the registers encoded in base64.
+     */
+    toJSON(): SerializedHyperLogLog {
+        return { type: 'hyperLogLog', precision: this.precision, registers: Buffer.from(this.registers).toString('base64') };
+    }
+
+    /**
+     * Restores a sketch from the output of toJSON.
+     *
+     * @throws TypeError If json is not a serialized HyperLogLog.
+     */
+    static fromJSON(json: SerializedHyperLogLog): HyperLogLog {
+        assertSerialized('HyperLogLog.fromJSON(json)', json, 'hyperLogLog');
+        const sketch = new HyperLogLog({ precision: json.precision as number });
+        const registers = typeof json.registers === 'string' ? Buffer.from(json.registers, 'base64') : undefined;
+        if (registers?.length !== sketch.registers.length)
+            throw new TypeError('HyperLogLog.fromJSON(json): registers do not match the precision');
+        sketch.registers.set(registers);
+        return sketch;
+    }
+}
+
+/**
+ * Estimates quantiles of a stream of numbers with a merging t-digest.
+ *
+ * Values are buffered and periodically merged into weighted centroids, which are kept small near the extremes and
+ * larger around the median, so tail quantiles stay accurate. The exact minimum and maximum are kept. Digests can be
+ * merged, for example across workers, and the merged digest describes all the values added to either.
+ */
+export class TDigest {
+    readonly compression: number;
+    private means: number[];
+    private weights: number[];
+    private merged: number;
+    private buffer: number[];
+    private min: number;
+    private max: number;
+
+    /**
+     * @throws Error If compression is not a number of at least 10.
+     */
+    constructor(options: TDigestOptions = {}) {
+        const { compression = 100 } = options ?? {};
+        if (!(typeof compression === 'number' && compression >= 10 && compression < Infinity))
+            throw new Error('TDigest: compression must be a finite number of at least 10');
+        this.compression = compression;
+        this.means = [];
+        this.weights = [];
+        this.merged = 0;
+        this.buffer = [];
+        this.min = Infinity;
+        this.max = -Infinity;
+    }
+
+    /**
+     * The number of values added.
+     */
+    get count() {
+        return this.merged + this.buffer.length;
+    }
+
+    /**
+     * @throws TypeError If the value is not a finite number.
+     */
+    add(value: unknown) {
+        if (typeof value !== 'number' || !Number.isFinite(value))
+            throw new TypeError('TDigest: values must be finite numbers');
+        this.buffer.push(value);
+        if (value < this.min) this.min = value;
+        if (value > this.max) this.max = value;
+        if (this.buffer.length >= 5 * this.compression) this.compress();
+    }
+
+    /**
+     * Returns the estimated value below which a fraction q of the values fall, interpolating between centroids.
+     * quantile(0) and quantile(1) are the exact minimum and maximum. Returns NaN when no values were added.
+     *
+     * @throws Error If q is not a number from 0 to 1.
+     */
+    quantile(q: number): number {
+        if (!(typeof q === 'number' && q >= 0 && q <= 1))
+            throw new Error('TDigest.quantile(q): q must be a number from 0 to 1');
+        this.compress();
+        const { means, weights, merged: total } = this;
+        if (total === 0) return NaN;
+        if (q === 0) return this.min;
+        if (q === 1) return this.max;
+
+        const target = q * total;
+        let before = 0;
+        for (let i = 0; i < means.length; i++) {
+            const center = before + weights[i] / 2;
+            if (target < center) {
+                if (i === 0) return this.min + (means[0] - this.min) * (target / center);
+                const previousCenter = before - weights[i - 1] / 2;
+                return means[i - 1] + (means[i] - means[i - 1]) * (target - previousCenter) / (center - previousCenter);
+            }
+            before += weights[i];
+        }
+        const last = means.length - 1;
+        const lastCenter = total - weights[last] / 2;
+        return means[last] + (this.max - means[last]) * (target - lastCenter) / (total - lastCenter);
+    }
+
+    /**
+     * Adds the values described by another digest to this one, and returns this digest.
+     */
+    merge(other: TDigest): this {
+        other.compress();
+        if (other.merged === 0) return this;
+        this.min = Math.min(this.min, other.min);
+        this.max = Math.max(this.max, other.max);
+        this.compress(other.means.map((mean, i) => [mean, other.weights[i]]));
+        return this;
+    }
+
+    /**
+     * Returns a JSON-safe copy of the digest as [mean, weight] centroids.
+     */
+    toJSON(): SerializedTDigest {
+        this.compress();
+        const empty = this.merged === 0;
+        return {
+            type: 'tDigest',
+            compression: this.compression,
+            min: empty ? null : this.min,
+            max: empty ? null : this.max,
+            centroids: this.means.map((mean, i) => [mean, this.weights[i]])
+        };
+    }
+
+    /**
+     * Restores a digest from the output of toJSON.
+     *
+     * @throws TypeError If json is not a serialized TDigest.
+     */
+    static fromJSON(json: SerializedTDigest): TDigest {
+        assertSerialized('TDigest.fromJSON(json)', json, 'tDigest');
+        const digest = new TDigest({ compression: json.compression as number });
+        const centroids = json.centroids;
+        const valid = Array.isArray(centroids) && centroids.every(c => Array.isArray(c) && Number.isFinite(c[0]) && c[1] > 0);
+        if (!valid || (centroids.length > 0 && !(Number.isFinite(json.min) && Number.isFinite(json.max))))
+            throw new TypeError('TDigest.fromJSON(json): centroids, min and max must be finite numbers');
+        if (centroids.length > 0) {
+            digest.min = json.min as number;
+            digest.max = json.max as number;
+            digest.compress(centroids);
+        }
+        return digest;
+    }
+
+    /**
+     * Merges the buffered values and any extra [mean, weight] centroids into the centroids. Neighbouring centroids are
+     * combined while the result spans at most one unit of the arcsine scale function, which keeps centroids near the
+     * extremes small.
+     */
+    private compress(extra: [number, number][] = []) {
+        if (this.buffer.length === 0 && extra.length === 0) return;
+        const points: [number, number][] = this.means.map((mean, i) => [mean, this.weights[i]]);
+        for (const value of this.buffer) points.push([value, 1]);
+        points.push(...extra);
+        points.sort((a, b) => a[0] - b[0]);
+
+        const total = points.reduce((sum, [, weight]) => sum + weight, 0);
+        const normalizer = this.compression / (2 * Math.PI);
+        const scale = (q: number) => normalizer * Math.asin(Math.min(1, Math.max(-1, 2 * q - 1)));
+        const means: number[] = [];
+        const weights: number[] = [];
+        let [mean, weight] = points[0];
+        let before = 0;
+        let left = scale(0);
+        for (let i = 1; i < points.length; i++) {
+            const [nextMean, nextWeight] = points[i];
+            if (scale((before + weight + nextWeight) / total) - left <= 1) {
+                weight += nextWeight;
+                mean += (nextMean - mean) * nextWeight / weight;
+                continue;
+            }
+            means.push(mean);
+            weights.push(weight);
+            before += weight;
+            left = scale(before / total);
+            [mean, weight] = [nextMean, nextWeight];
+        }
+        means.push(mean);
+        weights.push(weight);
+
+        this.means = means;
+        this.weights = weights;
+        this.merged = total;
+        this.buffer = [];
+    }
+}
+
+/**
+ * A key counted by a Space-Saving sketch, and the bucket of keys with the same count it belongs to.
+ */
+type Counter<K> = { key: K, count: number, error: number, bucket: CountBucket<K> | undefined };
+
+/**
+ * The counters that share a count, in the order they reached it. Buckets form a list ordered by count, smallest first.
+ */
+type CountBucket<K> = { count: number, counters: Set<Counter<K>>, prev: CountBucket<K> | undefined, next: CountBucket<K> | undefined };
+
+/**
+ * Finds the most frequent keys of a stream with the Space-Saving algorithm, counting at most `capacity` keys at a time.
+ *
+ * When a new key arrives and every counter is taken, it replaces the key with the smallest count and inherits that count
+ * as its error. Counters are kept in a stream summary, a list of buckets of equal counts, so counting a key and replacing
+ * the smallest one both take constant time. Keys are compared like Map keys; to serialize a sketch its keys must survive
+ * a JSON round trip. Sketches can be merged, for example across workers, keeping the same guarantees for all the keys
+ * added to either.
+ */
+export class SpaceSaving<K = unknown> {
+    readonly capacity: number;
+    /**
+     * The counters by key, in the order their keys were first counted.
+     */
+    private counters: Map<K, Counter<K>>;
+    /**
+     * The bucket with the smallest count.
+     */
+    private lowest: CountBucket<K> | undefined;
+    private total: number;
+
+    /**
+     * @throws Error If capacity is not a positive integer.
+     */
+    constructor(options: SpaceSavingOptions = {}) {
+        const { capacity = 100 } = options ?? {};
+        if (!Number.isInteger(capacity) || capacity < 1)
+            throw new Error('SpaceSaving: capacity must be a positive integer');
+        this.capacity = capacity;
+        this.counters = new Map();
+        this.lowest = undefined;
+        this.total = 0;
+    }
+
+    /**
+     * The number of keys added, including repeats.
+     */
+    get count() {
+        return this.total;
+    }
+
+    add(key: K) {
+        this.total++;
+        const counter = this.counters.get(key);
+        if (counter) {
+            this.moveTo(counter, counter.count + 1);
+        } else if (this.counters.size < this.capacity) {
+            const fresh: Counter<K> = { key, count: 0, error: 0, bucket: undefined };
+            this.counters.set(key, fresh);
+            this.moveTo(fresh, 1);
+        } else {
+            // The counter that has had the smallest count the longest is taken over by the new key
+            const smallest = this.lowest!.counters.values().next().value as Counter<K>;
+            this.counters.delete(smallest.key);
+            smallest.key = key;
+            smallest.error = smallest.count;
+            this.counters.set(key, smallest);
+            this.moveTo(smallest, smallest.count + 1);
+        }
+    }
+
+    /**
+     * Returns the n keys with the highest counts (all counted keys by default), highest first. Keys with equal counts
+     * keep the order they were first counted in.
+     */
+    top(n: number = this.capacity): HeavyHitter<K>[] {
+        return [...this.counters.values()]
+            .map(({ key, count, error }) => ({ key, count, error }))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, n);
+    }
+
+    /**
+     * Adds the keys counted by another sketch to this one, and returns this sketch. A key missing from a full sketch is
+     * assumed to have that sketch's smallest count, with the same error, so counts stay upper bounds.
+     */
+    merge(other: SpaceSaving<K>): this {
+        const floor = (sketch: SpaceSaving<K>) => sketch.counters.size === sketch.capacity ? sketch.lowest!.count : 0;
+        const ours = floor(this);
+        const theirs = floor(other);
+        const combined: [K, number, number][] = [];
+        for (const { key, count, error } of this.counters.values()) {
+            const match = other.counters.get(key);
+            combined.push([key, count + (match?.count ?? theirs), error + (match?.error ?? theirs)]);
+        }
+        for (const { key, count, error } of other.counters.values()) {
+            if (!this.counters.has(key)) combined.push([key, count + ours, error + ours]);
+        }
+        this.load(combined.sort((a, b) => b[1] - a[1]).slice(0, this.capacity));
+        this.total += other.total;
+        return this;
+    }
+
+    /**
+     * Returns a JSON-safe copy of the sketch as [key, count, error] counters.
+     */
+    toJSON(): SerializedSpaceSaving<K> {
+        return {
+            type: 'spaceSaving',
+            capacity: this.capacity,
+            total: this.total,
+            counters: [...this.counters.values()].map(({ key, count, error }) => [key, count, error])
+        };
+    }
+
+    /**
+     * Restores a sketch from the output of toJSON.
+     *
+     * @throws TypeError If json is not a serialized SpaceSaving sketch.
+     */
+    static fromJSON<K>(json: SerializedSpaceSaving<K>): SpaceSaving<K> {
+        assertSerialized('SpaceSaving.fromJSON(json)', json, 'spaceSaving');
+        const sketch = new SpaceSaving<K>({ capacity: json.capacity as number });
+        const counters = json.counters;
+        const valid = Array.isArray(counters) && counters.length <= sketch.capacity && Number.isInteger(json.total)
+            && counters.every(c => Array.isArray(c) && Number.isInteger(c[1]) && c[1] > 0 && Number.isInteger(c[2]));
+        if (!valid) throw new TypeError('SpaceSaving.fromJSON(json): counters and total must be integers within capacity');
+        sketch.load(counters as [K, number, number][]);
+        sketch.total = json.total as number;
+        return sketch;
+    }
+
+    /**
+     * Replaces the counters with the given [key, count, error] entries, keeping their order for ties.
+     */
+    private load(entries: [K, number, number][]) {
+        this.counters = new Map();
+        this.lowest = undefined;
+        for (const [key, count, error] of entries) this.counters.set(key, { key, count, error, bucket: undefined });
+        // Build the buckets in one pass up the counts rather than walking the list for every counter
+        let highest: CountBucket<K> | undefined;
+        for (const counter of [...this.counters.values()].sort((a, b) => a.count - b.count)) {
+            if (highest?.count !== counter.count) {
+                const bucket: CountBucket<K> = { count: counter.count, counters: new Set(), prev: highest, next: undefined };
+                if (highest) highest.next = bucket;
+                else this.lowest = bucket;
+                highest = bucket;
+            }
+            counter.bucket = highest;
+            highest.counters.add(counter);
+        }
+    }
+
+    /**
+     * Sets a counter's count and moves it into the bucket for that count, creating the bucket if there is none.
+     * Counts only grow by one, so the bucket for the new count is either the next one or goes right before it.
+     */
+    private moveTo(counter: Counter<K>, count: number) {
+        let prev = counter.bucket;
+        if (prev) {
+            prev.counters.delete(counter);
+            if (prev.counters.size === 0) {
+                this.unlink(prev);
+                prev = prev.prev;
+            }
+        }
+        const next = prev ? prev.next : this.lowest;
+        let bucket: CountBucket<K>;
+        if (next?.count === count) {
+            bucket = next;
+        } else {
+            bucket = { count, counters: new Set(), prev, next };
+            if (prev) prev.next = bucket;
+            else this.lowest = bucket;
+            if (next) next.prev = bucket;
+        }
+        counter.count = count;
+        counter.bucket = bucket;
+        bucket.counters.add(counter);
+    }
+
+    /**
+     * Removes an empty bucket from the list.
+     */
+    private unlink(bucket: CountBucket<K>) {
+        if (bucket.prev) bucket.prev.next = bucket.next;
+        else this.lowest = bucket.next;
+        if (bucket.next) bucket.next.prev = bucket.prev;
+    }
+}
@@ -0,0 +1,19 @@
+import { AbortError } from './errors';
+
+/**
+ * Resolves after the given delay, or rejects with an AbortError as soon as the signal aborts.
+ */
+export function sleep(ms: number, signal: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal.aborted) return reject(new AbortError(signal.reason));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortError(signal.reason));
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
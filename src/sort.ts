@@ -0,0 +1,149 @@
+import { createReadStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { BinaryHeap } from './heap';
+import { mergeSortedAsyncIterables } from './sorted';
+
+/**
+ * Options for sortBy.
+ *
+ * `maxInMemory` is how many values are sorted in memory at a time (defaults to 100,000). Past it, each sorted run is
+ * written to a temporary file under `tempDir` (defaults to the OS temp directory) and the runs are merged back lazily.
+ * Values are written one per line with `serialize` and read back with `deserialize`, JSON.stringify and JSON.parse by
+ * default, so by default they must survive a JSON round trip.
+ */
+export type SortByOptions<T> = {
+    maxInMemory?: number,
+    tempDir?: string,
+    serialize?: (x: T) => string,
+    deserialize?: (line: string) => T
+};
+
+type ResolvedSortByOptions = Required<Omit<SortByOptions<any>, 'tempDir'>> & { tempDir: string | undefined };
+
+/**
+ * Keeps the k largest values seen so far in a min-heap, so memory is bounded by k.
+ * Between values that compare equal, the earlier one ranks higher.
+ */
+export class TopK<T> {
+    private k: number;
+    private compare: (a: T, b: T) => number;
+    private heap: BinaryHeap<{ value: T, index: number }>;
+    private seen: number;
+
+    constructor(k: number, compare: (a: T, b: T) => number) {
+        this.k = k;
+        this.compare = compare;
+        this.heap = new BinaryHeap((a, b) => compare(a.value, b.value) || b.index - a.index);
+        this.seen = 0;
+    }
+
+    add(value: T) {
+        const entry = { value, index: this.seen++ };
+        if (this.heap.size < this.k) {
+            this.heap.push(entry);
+        } else if (this.k > 0) {
+            const smallest = this.heap.peek()!;
+            if ((this.compare(entry.value, smallest.value) || smallest.index - entry.index) > 0) this.heap.replaceTop(entry);
+        }
+    }
+
+    /**
+     * The values kept, largest first.
+     */
+    result(): T[] {
+        return this.heap.drain()
+            .sort((a, b) => this.compare(b.value, a.value) || a.index - b.index)
+            .map(entry => entry.value);
+    }
+}
+
+/**
+ * Throws unless k is a non-negative integer.
+ *
+ * @throws Error If k is not a non-negative integer.
+ */
+export function assertTopK(k: number) {
+    if (!Number.isInteger(k) || k < 0) throw new Error('topK(k, compare): k must be a non-negative integer');
+}
+
+/**
+ * Validates sortBy options and fills in their defaults.
+ *
+ * @throws TypeError If compare, serialize or deserialize is not a function.
+ * @throws Error If maxInMemory is not a positive integer.
+ */
+export function resolveSortByOptions(compare: unknown, options: SortByOptions<any> = {}): ResolvedSortByOptions {
+    const { maxInMemory = 100_000, tempDir, serialize = JSON.stringify, deserialize = JSON.parse } = options ?? {};
+    if (typeof compare !== 'function')
+        throw new TypeError('sortBy(compare, options): compare must be a function');
+    if (!Number.isInteger(maxInMemory) || maxInMemory < 1)
+        throw new Error('sortBy(compare, options): maxInMemory must be a positive integer');
+    if (typeof serialize !== 'function' || typeof deserialize !== 'function')
+        throw new TypeError('sortBy(compare, options): serialize and deserialize must be functions');
+    return { maxInMemory, tempDir, serialize, deserialize };
+}
+
+/**
+ * Returns an async iterable that sorts the values of a sync or async source, stably.
+ *
+ * Values are sorted in memory in runs of `maxInMemory`. If the source fits in one run, it is sorted and emitted directly.
+ * Otherwise every full run is spilled to a file in a fresh temporary directory, and the files and the last run are
+ * merged lazily, holding one value per run. The directory is removed once the iterator finishes or is closed.
+ */
+export function externalSortIterable(source: AsyncIterable<any> | Iterable<any>, compare: (a: any, b: any) => number, options: ResolvedSortByOptions): AsyncIterable<any> {
+    const { maxInMemory, tempDir, serialize } = options;
+    return {
+        async *[Symbol.asyncIterator]() {
+            let dir: string | undefined;
+            const runs: AsyncIterable<any>[] = [];
+            let buffer: any[] = [];
+            try {
+                for await (const value of source) {
+                    buffer.push(value);
+                    if (buffer.length < maxInMemory) continue;
+                    dir ??= await fs.mkdtemp(join(tempDir ?? tmpdir(), 'iterflow-sort-'));
+                    const file = join(dir, `run-${runs.length}`);
+                    await fs.writeFile(file, buffer.sort(compare).map(value => serializeLine(serialize, value)).join(''));
+                    runs.push(readRun(file, options.deserialize));
+                    buffer = [];
+                }
+                buffer.sort(compare);
+                if (runs.length === 0) {
+                    yield* buffer;
+                    return;
+                }
+                yield* mergeSortedAsyncIterables('sortBy(compare, options)', compare, [...runs, buffer]);
+            } finally {
+                if (dir !== undefined) await fs.rm(dir, { recursive: true, force: true });
+            }
+        }
+    };
+}
+
+/**
+ * Serializes a value into one line of a run file.
+ *
+ * @throws Error If serialize does not return a string without line breaks.
+ */
+function serializeLine(serialize: (x: any) => string, value: any) {
+    const line = serialize(value);
+    if (typeof line !== 'string' || /[\r\n]/.test(line))
+        throw new Error('sortBy(compare, options): serialize must return a string without line breaks');
+    return line + '\n';
+}
+
+/**
+ * Reads a run file back one value per line. The file is only opened once the run is first pulled from.
+ */
+async function* readRun(file: string, deserialize: (line: string) => any) {
+    const stream = createReadStream(file, { encoding: 'utf8' });
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+    try {
+        for await (const line of lines) yield deserialize(line);
+    } finally {
+        lines.close();
+        stream.destroy();
+    }
+}
@@ -0,0 +1,276 @@
+import { SortOrderError } from './errors';
+import { BinaryHeap } from './heap';
+
+/**
+ * Which unmatched values a sorted join keeps.
+ *
+ * - `inner`: only pairs whose keys match.
+ * - `left`: every value of the left input, paired with undefined when nothing on the right matches.
+ * - `fullOuter`: every value of both inputs, with undefined standing in for the missing side.
+ */
+export type JoinMode = 'inner' | 'left' | 'fullOuter';
+
+/**
+ * Options for the sorted join stages. Both inputs must be sorted by their key in the order given by `compare`.
+ *
+ * `key` returns the join key of a value of the pipeline and `otherKey` that of the other input (defaults to `key`).
+ * `compare` orders keys; it defaults to the natural order of numbers and strings (`<` and `>`).
+ */
+export type SortedJoinOptions<T, U, K> = {
+    key: (x: T) => K,
+    otherKey?: (x: U) => K,
+    compare?: (a: K, b: K) => number
+};
+
+type ResolvedSortedJoinOptions = {
+    key: (x: any) => any,
+    otherKey: (x: any) => any,
+    compare: (a: any, b: any) => number
+};
+
+/**
+ * Orders values with `<` and `>`, the default for join keys.
+ */
+export function naturalOrder(a: any, b: any): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Validates sorted join options and fills in their defaults.
+ *
+ * @throws TypeError If key, otherKey or compare is not a function.
+ */
+export function resolveSortedJoinOptions(method: string, options: SortedJoinOptions<any, any, any>): ResolvedSortedJoinOptions {
+    const { key, otherKey = key, compare = naturalOrder } = options ?? {};
+    if (typeof key !== 'function')
+        throw new TypeError(`${method}: key must be a function`);
+    if (typeof otherKey !== 'function')
+        throw new TypeError(`${method}: otherKey must be a function`);
+    if (typeof compare !== 'function')
+        throw new TypeError(`${method}: compare must be a function`);
+    return { key, otherKey, compare };
+}
+
+export type SyncPuller = { next(): IteratorResult<any>, close(): void };
+export type AsyncPuller = { next(): Promise<IteratorResult<any>>, close(): Promise<void> };
+
+/**
+ * Opens an iterator or iterable and wraps it so that every value pulled (or its key) is checked to sort at or after the
+ * previous one, unless `compare` is undefined. `close()` closes the input unless it is already done.
+ */
+export function syncPuller(method: string, input: unknown, position: number, compare: ((a: any, b: any) => number) | undefined, key: (x: any) => any = x => x): SyncPuller {
+    const source = input as any;
+    const iterator: Iterator<any> = typeof source.next === 'function' ? source : source[Symbol.iterator]();
+    let done = false;
+    let hasPrevious = false;
+    let previous: any;
+    return {
+        next() {
+            const result = iterator.next();
+            if (result.done) {
+                done = true;
+                return result;
+            }
+            if (!compare) return result;
+            const current = key(result.value);
+            if (hasPrevious && compare(previous, current) > 0) throw new SortOrderError(method, position, previous, current);
+            previous = current;
+            hasPrevious = true;
+            return result;
+        },
+        close() {
+            if (!done) {
+                done = true;
+                iterator.return?.();
+            }
+        }
+    };
+}
+
+/**
+ * Like syncPuller, for sync or async iterators and iterables.
+ */
+export function asyncPuller(method: string, input: unknown, position: number, compare: ((a: any, b: any) => number) | undefined, key: (x: any) => any = x => x): AsyncPuller {
+    const source = input as any;
+    const iterator: Iterator<any> | AsyncIterator<any> = typeof source.next === 'function'
+        ? source
+        : typeof source[Symbol.asyncIterator] === 'function'
+            ? source[Symbol.asyncIterator]()
+            : source[Symbol.iterator]();
+    let done = false;
+    let hasPrevious = false;
+    let previous: any;
+    return {
+        async next() {
+            const result = await iterator.next();
+            if (result.done) {
+                done = true;
+                return result;
+            }
+            if (!compare) return result;
+            const current = key(result.value);
+            if (hasPrevious && compare(previous, current) > 0) throw new SortOrderError(method, position, previous, current);
+            previous = current;
+            hasPrevious = true;
+            return result;
+        },
+        async close() {
+            if (!done) {
+                done = true;
+                await iterator.return?.();
+            }
+        }
+    };
+}
+
+type HeapEntry = { value: any, source: number };
+
+/**
+ * Orders heap entries by value, and by input position between equal values so the merge is stable.
+ */
+function entryOrder(compare: (a: any, b: any) => number) {
+    return (a: HeapEntry, b: HeapEntry) => compare(a.value, b.value) || a.source - b.source;
+}
+
+/**
+ * Returns an iterable whose iterators merge inputs that are each sorted by `compare` into one sorted sequence.
+ * Only one value per input is held at a time, in a heap, and an input is pulled again only once its value is emitted.
+ */
+export function mergeSortedIterables(method: string, compare: (a: any, b: any) => number, inputs: unknown[]): Iterable<any> {
+    return {
+        *[Symbol.iterator]() {
+            const pullers = inputs.map((input, i) => syncPuller(method, input, i, compare));
+            const heap = new BinaryHeap<HeapEntry>(entryOrder(compare));
+            const pull = (source: number) => {
+                const result = pullers[source].next();
+                if (!result.done) heap.push({ value: result.value, source });
+            };
+            try {
+                pullers.forEach((_, i) => pull(i));
+                while (heap.size > 0) {
+                    const { value, source } = heap.pop()!;
+                    yield value;
+                    pull(source);
+                }
+            } finally {
+                pullers.forEach(puller => puller.close());
+            }
+        }
+    };
+}
+
+/**
+ * Like mergeSortedIterables, for sync or async inputs. Inputs are first pulled at the same time.
+ */
+export function mergeSortedAsyncIterables(method: string, compare: (a: any, b: any) => number, inputs: unknown[]): AsyncIterable<any> {
+    return {
+        async *[Symbol.asyncIterator]() {
+            const pullers = inputs.map((input, i) => asyncPuller(method, input, i, compare));
+            const heap = new BinaryHeap<HeapEntry>(entryOrder(compare));
+            const pull = async (source: number) => {
+                const result = await pullers[source].next();
+                if (!result.done) heap.push({ value: result.value, source });
+            };
+            try {
+                await Promise.all(pullers.map((_, i) => pull(i)));
+                while (heap.size > 0) {
+                    const { value, source } = heap.pop()!;
+                    yield value;
+                    await pull(source);
+                }
+            } finally {
+                await Promise.all(pullers.map(puller => puller.close()));
+            }
+        }
+    };
+}
+
+/**
+ * Returns an iterable whose iterators join two inputs sorted by key in a single pass, yielding `[left, right]` pairs.
+ * Only the run of right values sharing the current key is buffered, so every left value with that key is paired with
+ * each of them.
+ */
+export function sortedJoinIterables(method: string, mode: JoinMode, left: unknown, right: unknown, options: ResolvedSortedJoinOptions): Iterable<any> {
+    const { key, otherKey, compare } = options;
+    return {
+        *[Symbol.iterator]() {
+            const lefts = syncPuller(method, left, 0, compare, key);
+            const rights = syncPuller(method, right, 1, compare, otherKey);
+            try {
+                let l = lefts.next();
+                let r = rights.next();
+                while (!l.done) {
+                    if (mode === 'inner' && r.done) break;
+                    const leftKey = key(l.value);
+                    // Right values before the key have no match on the left
+                    while (!r.done && compare(otherKey(r.value), leftKey) < 0) {
+                        if (mode === 'fullOuter') yield [undefined, r.value];
+                        r = rights.next();
+                    }
+                    const run: any[] = [];
+                    while (!r.done && compare(otherKey(r.value), leftKey) === 0) {
+                        run.push(r.value);
+                        r = rights.next();
+                    }
+                    do {
+                        if (run.length > 0) {
+                            for (const value of run) yield [l.value, value];
+                        } else if (mode !== 'inner') {
+                            yield [l.value, undefined];
+                        }
+                        l = lefts.next();
+                    } while (!l.done && compare(key(l.value), leftKey) === 0);
+                }
+                if (mode === 'fullOuter') {
+                    for (; !r.done; r = rights.next()) yield [undefined, r.value];
+                }
+            } finally {
+                lefts.close();
+                rights.close();
+            }
+        }
+    };
+}
+
+/**
+ * Like sortedJoinIterables, for sync or async inputs.
+ */
+export function sortedJoinAsyncIterables(method: string, mode: JoinMode, left: unknown, right: unknown, options: ResolvedSortedJoinOptions): AsyncIterable<any> {
+    const { key, otherKey, compare } = options;
+    return {
+        async *[Symbol.asyncIterator]() {
+            const lefts = asyncPuller(method, left, 0, compare, key);
+            const rights = asyncPuller(method, right, 1, compare, otherKey);
+            try {
+                let [l, r] = await Promise.all([lefts.next(), rights.next()]);
+                while (!l.done) {
+                    if (mode === 'inner' && r.done) break;
+                    const leftKey = key(l.value);
+                    // Right values before the key have no match on the left
+                    while (!r.done && compare(otherKey(r.value), leftKey) < 0) {
+                        if (mode === 'fullOuter') yield [undefined, r.value];
+                        r = await rights.next();
+                    }
+                    const run: any[] = [];
+                    while (!r.done && compare(otherKey(r.value), leftKey) === 0) {
+                        run.push(r.value);
+                        r = await rights.next();
+                    }
+                    do {
+                        if (run.length > 0) {
+                            for (const value of run) yield [l.value, value];
+                        } else if (mode !== 'inner') {
+                            yield [l.value, undefined];
+                        }
+                        l = await lefts.next();
+                    } while (!l.done && compare(key(l.value), leftKey) === 0);
+                }
+                if (mode === 'fullOuter') {
+                    for (; !r.done; r = await rights.next()) yield [undefined, r.value];
+                }
+            } finally {
+                await Promise.all([lefts.close(), rights.close()]);
+            }
+        }
+    };
+}
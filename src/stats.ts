@@ -0,0 +1,149 @@
+import { naturalOrder } from './sorted';
+
+/**
+ * Summary statistics of a stream of numbers, computed in one pass.
+ *
+ * `variance` and `stddev` are the population variance and standard deviation (dividing by `count`); multiply the
+ * variance by `count / (count - 1)` for the sample variance. Every field but `count` and `sum` is NaN for an empty stream.
+ */
+export type Stats = { count: number, sum: number, mean: number, variance: number, stddev: number, min: number, max: number };
+
+/**
+ * The result type of sum: bigint for bigint streams, number otherwise.
+ */
+export type Summed<T> = [T] extends [bigint] ? bigint : number;
+
+/**
+ * A running sum of numbers, or of bigints.
+ *
+ * Numbers are added with Neumaier's compensated summation, which keeps the rounding error of each addition and adds it
+ * back at the end, so long streams of values of different magnitudes do not drift. Bigints are summed exactly.
+ */
+export class Summation {
+    private method: string;
+    private total: number;
+    private compensation: number;
+    private bigTotal: bigint | undefined;
+    private hasNumbers: boolean;
+
+    constructor(method: string) {
+        this.method = method;
+        this.total = 0;
+        this.compensation = 0;
+        this.bigTotal = undefined;
+        this.hasNumbers = false;
+    }
+
+    /**
+     * @throws TypeError If the value is neither a number nor a bigint, or numbers and bigints are mixed.
+     */
+    add(value: unknown) {
+        if (typeof value === 'bigint' && !this.hasNumbers) {
+            this.bigTotal = (this.bigTotal ?? BigInt(0)) + value;
+            return;
+        }
+        if (typeof value !== 'number' || this.bigTotal !== undefined) {
+            throw new TypeError(typeof value === 'number' || typeof value === 'bigint'
+                ? `${this.method}: cannot mix numbers and bigints`
+                : `${this.method}: values must be numbers or bigints`);
+        }
+        this.hasNumbers = true;
+        const t = this.total + value;
+        if (Math.abs(this.total) >= Math.abs(value)) this.compensation += (this.total - t) + value;
+        else this.compensation += (value - t) + this.total;
+        this.total = t;
+    }
+
+    /**
+     * The sum so far: a bigint if bigints were added, otherwise a number (0 when nothing was added).
+     */
+    get result(): number | bigint {
+        if (this.bigTotal !== undefined) return this.bigTotal;
+        // Once the total overflows, the compensation is NaN and would hide the infinite result
+        return Number.isFinite(this.total) ? this.total + this.compensation : this.total;
+    }
+}
+
+/**
+ * Running count, sum, mean, variance, minimum and maximum of a stream of numbers.
+ * The mean and variance are updated with Welford's algorithm, which avoids the cancellation of summing squares.
+ */
+export class RunningStats {
+    private method: string;
+    private count: number;
+    private summation: Summation;
+    private mean: number;
+    private squaredDeviations: number;
+    private min: number;
+    private max: number;
+
+    constructor(method: string) {
+        this.method = method;
+        this.count = 0;
+        this.summation = new Summation(method);
+        this.mean = 0;
+        this.squaredDeviations = 0;
+        this.min = NaN;
+        this.max = NaN;
+    }
+
+    /**
+     * @throws TypeError If the value is not a number.
+     */
+    add(value: unknown) {
+        if (typeof value !== 'number') throw new TypeError(`${this.method}: values must be numbers`);
+        this.summation.add(value);
+        this.count++;
+        const delta = value - this.mean;
+        this.mean += delta / this.count;
+        this.squaredDeviations += delta * (value - this.mean);
+        if (this.count === 1 || value < this.min) this.min = value;
+        if (this.count === 1 || value > this.max) this.max = value;
+    }
+
+    /**
+     * The mean so far, taken from the compensated sum for accuracy, or NaN when nothing was added.
+     */
+    get average(): number {
+        return this.count === 0 ? NaN : (this.summation.result as number) / this.count;
+    }
+
+    get result(): Stats {
+        const empty = this.count === 0;
+        const variance = empty ? NaN : Math.max(0, this.squaredDeviations / this.count);
+        return {
+            count: this.count,
+            sum: this.summation.result as number,
+            mean: this.average,
+            variance,
+            stddev: Math.sqrt(variance),
+            min: this.min,
+            max: this.max
+        };
+    }
+}
+
+/**
+ * Tracks the value with the smallest (direction -1) or largest (direction 1) key seen so far, comparing keys with
+ * `<` and `>`. Between values whose keys compare equal, the earliest one is kept.
+ */
+export class Extremum<T> {
+    private direction: 1 | -1;
+    private found: boolean;
+    private key: unknown;
+    value: T | undefined;
+
+    constructor(direction: 1 | -1) {
+        this.direction = direction;
+        this.found = false;
+        this.key = undefined;
+        this.value = undefined;
+    }
+
+    add(value: T, key: unknown) {
+        if (this.found && this.direction * naturalOrder(key, this.key) <= 0) return;
+        this.found = true;
+        this.key = key;
+        this.value = value;
+    }
+}
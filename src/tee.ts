@@ -1,12 +1,256 @@
+import { RingBuffer } from './ring-buffer';
+import { HyperLogLog, SpaceSaving, TDigest } from './sketches';
+
+/**
+ * What a tee does when a branch needs a new element from the source but `maxBuffer` elements are already buffered.
+ *
+ * - `block`: wait until the slowest branch catches up (async tees only).
+ * - `error`: throw from the branch that tried to read ahead. The call can be retried once the slow branches catch up.
+ * - `dropOldest`: discard the oldest buffered element. Branches that had not read it yet skip it.
+ * - `detachSlow`: detach the branches that have not read the oldest buffered element. They throw once and then report done.
+ */
+export type TeeBufferPolicy = 'block' | 'error' | 'dropOldest' | 'detachSlow';
+
+/**
+ * Options for bounding the memory used by a tee.
+ */
+export type TeeOptions = {
+    /**
+     * The most elements kept for branches that have not read them yet. Defaults to Infinity.
+     */
+    maxBuffer?: number,
+    /**
+     * Defaults to `block` for async tees and `error` for sync tees.
+     */
+    policy?: TeeBufferPolicy
+};
+
+/**
+ * A snapshot of a tee's buffer.
+ *
+ * `bufferDepth` is the number of elements currently held, and each branch's `lag` is how many of them it has not read yet.
+ */
+export type TeeInspection = {
+    bufferDepth: number,
+    maxBuffer: number,
+    policy: TeeBufferPolicy,
+    branches: { lag: number, state: 'open' | 'done' | 'detached' }[]
+};
+
+/**
+ * A branch of a sync tee.
+ */
+export type TeeIterator<T> = IterableIterator<T> & {
+    /**
+     * Reports the buffer depth of the tee and the lag of each of its branches.
+     */
+    inspect(): TeeInspection
+};
+
+/**
+ * A branch of an async tee.
+ */
+export type AsyncTeeIterator<T> = AsyncIterableIterator<T> & {
+    /**
+     * Reports the buffer depth of the tee and the lag of each of its branches.
+     */
+    inspect(): TeeInspection
+};
+
+/**
+ * Validates tee options and fills in their defaults.
+ *
+ * @throws Error If maxBuffer is not a positive integer or Infinity, or the policy is unknown or not available for sync tees.
+ */
+function resolveTeeOptions(options: TeeOptions | undefined, isAsync: boolean) {
+    const { maxBuffer = Infinity, policy = isAsync ? 'block' : 'error' } = options ?? {};
+    if(!(maxBuffer === Infinity || (Number.isInteger(maxBuffer) && maxBuffer > 0)))
+        throw new Error(`Expected maxBuffer to be a positive integer or Infinity`);
+    if(!['block', 'error', 'dropOldest', 'detachSlow'].includes(policy))
+        throw new Error(`Unknown tee buffer policy: ${String(policy)}`);
+    if(policy === 'block' && !isAsync)
+        throw new Error(`The 'block' tee buffer policy is only supported by async tees`);
+    return { maxBuffer, policy };
+}
+
+/**
+ * Shared buffer, branch positions and buffer policies for tee iterators (sync/async).
+ *
+ * Elements are numbered in source order. `streamBuffer` holds elements `head` to `head + streamBuffer.length - 1`, and
+ * `waiting` holds, for each of them, how many open branches read it next. A branch whose next element has not been
+ * pulled yet is counted in `caughtUp` instead. Reading an element only moves one branch between two counts, and the
+ * front of the buffer is released as soon as nobody waits on it, so every operation is amortized O(1) regardless of
+ * the number of branches.
+ *
+ * Branch positions are clamped to `head` when read, so dropping the oldest element does not touch every branch.
+ * Closed and detached branches sit at Infinity.
+ */
+function makeTeeState(count: number, maxBuffer: number, policy: TeeBufferPolicy) {
+    const positions: number[] = Array(count).fill(0);
+    const branchStates: ('open' | 'done' | 'detached')[] = Array(count).fill('open');
+    const streamBuffer = new RingBuffer<any>();
+    const waiting = new RingBuffer<number>();
+    let head = 0;
+    let caughtUp = count;
+    let waiters: (() => void)[] = [];
+
+    /**
+     * Wakes the branches blocked on a full buffer, so they can check for room again.
+     */
+    function notifyWaiters() {
+        const woken = waiters;
+        waiters = [];
+        woken.forEach(resolve => resolve());
+    }
+
+    function positionOf(index: number) {
+        return Math.max(positions[index], head);
+    }
+
+    /**
+     * Releases the elements at the front of the buffer that no open branch reads next.
+     */
+    function releaseConsumed() {
+        let released = false;
+        while(streamBuffer.length > 0 && waiting.get(0) === 0) {
+            streamBuffer.shift();
+            waiting.shift();
+            head++;
+            released = true;
+        }
+        if(released) notifyWaiters();
+    }
+
+    /**
+     * Removes the oldest buffered element. Branches that read it next move on to the element after it.
+     */
+    function dropOldest() {
+        streamBuffer.shift();
+        const skipped = waiting.shift()!;
+        head++;
+        if(streamBuffer.length > 0) waiting.set(0, waiting.get(0) + skipped);
+        else caughtUp += skipped;
+    }
+
+    /**
+     * Stops counting a branch as a reader, so it no longer holds elements in the buffer.
+     */
+    function retire(index: number, state: 'done' | 'detached') {
+        if(branchStates[index] !== 'open') return;
+        const offset = positionOf(index) - head;
+        if(offset < streamBuffer.length) waiting.set(offset, waiting.get(offset) - 1);
+        else caughtUp--;
+        branchStates[index] = state;
+        positions[index] = Infinity;
+    }
+
+    return {
+        branchStates,
+        /**
+         * Returns true if the branch has a buffered element to read.
+         */
+        hasBuffered(index: number) {
+            return positionOf(index) - head < streamBuffer.length;
+        },
+        /**
+         * Returns the next buffered element for the branch and advances it past it.
+         */
+        read(index: number) {
+            const offset = positionOf(index) - head;
+            const value = streamBuffer.get(offset);
+            waiting.set(offset, waiting.get(offset) - 1);
+            if(offset + 1 < streamBuffer.length) waiting.set(offset + 1, waiting.get(offset + 1) + 1);
+            else caughtUp++;
+            positions[index] = head + offset + 1;
+            releaseConsumed();
+            return value;
+        },
+        /**
+         * Buffers an element pulled from the source. Every caught-up branch reads it next.
+         */
+        push(value: any) {
+            streamBuffer.push(value);
+            waiting.push(caughtUp);
+            caughtUp = 0;
+        },
+        isFull() {
+            return streamBuffer.length >= maxBuffer;
+        },
+        /**
+         * Marks a branch as done or detached and releases the elements it was holding.
+         */
+        releaseBranch(index: number, state: 'done' | 'detached') {
+            retire(index, state);
+            releaseConsumed();
+            notifyWaiters();
+        },
+        /**
+         * Drops every buffered element, once no branch is left to read them.
+         */
+        clear() {
+            head += streamBuffer.length;
+            streamBuffer.clear();
+            waiting.clear();
+        },
+        /**
+         * Makes room for one more element according to the buffer policy.
+         *
+         * @throws Error Under the `error` policy.
+         */
+        makeRoom(index: number) {
+            if(policy === 'error')
+                throw new Error(`Tee buffer is full (maxBuffer: ${maxBuffer}); branch ${index} cannot read further ahead of the slowest branch`);
+            if(policy === 'dropOldest') {
+                dropOldest();
+                return;
+            }
+            // detachSlow: the branches still waiting on the oldest element are the ones holding the buffer
+            for (let i = 0; i < count; i++) {
+                if(i !== index && branchStates[i] === 'open' && positionOf(i) === head) retire(i, 'detached');
+            }
+            releaseConsumed();
+        },
+        /**
+         * Resolves the next time the buffer shrinks or a branch closes.
+         */
+        waitForRoom() {
+            return new Promise<void>(resolve => waiters.push(resolve));
+        },
+        inspect(): TeeInspection {
+            const tail = head + streamBuffer.length;
+            return {
+                bufferDepth: streamBuffer.length,
+                maxBuffer,
+                policy,
+                branches: branchStates.map((state, i) => ({
+                    lag: state === 'open' ? tail - positionOf(i) : 0,
+                    state
+                }))
+            };
+        }
+    };
+}
+
+/**
+ * Returns the error a detached branch throws on its first read after being detached.
+ */
+function detachedBranchError(index: number, maxBuffer: number) {
+    return new Error(`Tee branch ${index} was detached because it fell more than ${maxBuffer} elements behind`);
+}
+
 /**
  * Creates multiple independent lazy iterators from a single iterable source, allowing parallel consumption without re-traversing the source.
  * Each returned iterator is will yield the same sequence of values as the original iterable, but can be consumed at different rates.
  * Each returned iterator is lazy and only consumes values from the source iterable as they are requested.
  *
+ * Elements read by some branches but not others are buffered. Pass `options.maxBuffer` to bound the buffer, and
+ * `options.policy` to choose what happens when it is full (see {@link TeeBufferPolicy}).
+ *
  * @template T - The type of elements in the source iterable.
  * @param {Iterable<T>} sourceIterable - The iterable to split into multiple iterators.
  * @param {number} count - The number of independent iterators to create.
- * @returns {IterableIterator<T>[]} An array of independent iterators over the source iterable.
+ * @param {TeeOptions} [options] - Buffer bound and overflow policy. The `block` policy is not available for sync tees.
+ * @returns {TeeIterator<T>[]} An array of independent iterators over the source iterable.
  * @throws {Error} If incorrect arguments are provided or the source is not iterable.
  *
  * @example
@@ -17,17 +261,18 @@
  * console.log(it1.next().value); // 2
  * console.log(it2.next().value); // 2
  */
-export function createTeeIterators<T>(sourceIterable: Iterable<T>, count: number): IterableIterator<T>[] {
-    if(arguments.length !== 2) throw new Error(`Expected 2 arguments but recieved: ${arguments.length}`);
+export function createTeeIterators<T>(sourceIterable: Iterable<T>, count: number, options?: TeeOptions): TeeIterator<T>[] {
+    if(arguments.length < 2 || arguments.length > 3) throw new Error(`Expected 2 or 3 arguments but recieved: ${arguments.length}`);
     if(!sourceIterable[Symbol.iterator]) throw new Error(`Expected Arg 1 to be an iterator.`)
     if(!(typeof count === "number")) throw new Error(`Expected Arg 2 to be an integer`)
 
     // Make it an integer
     count = Math.floor(count)
 
+    const { maxBuffer, policy } = resolveTeeOptions(options, false);
     const sourceIterator = sourceIterable[Symbol.iterator]();
-    const iteratorIndexPositions: number[] = Array(count).fill(0);
-    const streamBuffer: T[] = []
+    const state = makeTeeState(count, maxBuffer, policy);
+    const { branchStates } = state;
     
     let streamExhausted = false;
     let streamError: Error | null = null;
@@ -42,7 +287,6 @@ export function createTeeIterators<T>(sourceIterable: Iterable<T>, count: number
         try {
             const result = sourceIterator.next();
             if(result.done) streamExhausted = true;
-            // console.log('result',result)
             return result;
         } catch(e) {
             streamError = e as any as Error;
@@ -50,22 +294,24 @@ export function createTeeIterators<T>(sourceIterable: Iterable<T>, count: number
         }  
     }
 
+    let openBranches = count;
+
     /**
-     * Cleans up the buffer by removing elements already consumed by all iterators.
+     * Marks a branch as closed. Its position no longer holds elements in the buffer, and once every
+     * branch has closed the source iterator is closed too, unless it has already finished.
      */
-    function cleanupStreamBuffer() {
-        const smallestComsumedIndex = Math.min(...iteratorIndexPositions)
-        const deletedElementsCount = smallestComsumedIndex;
-        streamBuffer.splice(0, deletedElementsCount);
-        for(let i = 0; i < count; i++) {
-            iteratorIndexPositions[i] -= deletedElementsCount;
-        }
+    function closeBranch(index: number) {
+        state.releaseBranch(index, 'done');
+        openBranches--;
+        if(openBranches > 0) return;
+        state.clear();
+        if(!streamExhausted && !streamError) sourceIterator.return?.();
     }
 
     /**
      * Creates a single teed iterator for the given index.
      */
-    function createTeedIterator(index: number): IterableIterator<T> {
+    function createTeedIterator(index: number): TeeIterator<T> {
         let done = false
         return {
             [Symbol.iterator]() {
@@ -74,91 +320,76 @@ export function createTeeIterators<T>(sourceIterable: Iterable<T>, count: number
             next(): IteratorResult<T> {
                 if(done) return { value: undefined, done: true}
 
-                // console.log(`Before`)
-                // console.log(`iterator ${index}`)
-                // console.log("buffer", streamBuffer)
-                // console.log(`index position: ${iteratorIndexPositions[index]}`)
-                
-                if(iteratorIndexPositions[index] < streamBuffer.length) {
-                    const value = streamBuffer[iteratorIndexPositions[index]];
-                    iteratorIndexPositions[index]++;
-                    cleanupStreamBuffer();
-                    return { value, done: false }
+                if(branchStates[index] === 'detached') {
+                    done = true;
+                    closeBranch(index);
+                    throw detachedBranchError(index, maxBuffer);
                 }
+                
+                if(state.hasBuffered(index)) return { value: state.read(index), done: false }
+
+                // The error policy applies before pulling, the lossy policies only once there is an element to make room for
+                if(state.isFull() && policy === 'error') state.makeRoom(index);
 
                 const result = getNextStreamElement()
 
                 if(result.done) {
                     done = true;
+                    state.releaseBranch(index, 'done');
+                    openBranches--;
                     return {done: true, value: undefined}
                 }
 
-                // console.log("pushed to stream");
-                streamBuffer.push(result.value!);
-                // console.log("index incremented")
-                iteratorIndexPositions[index]++
-                cleanupStreamBuffer();
+                if(state.isFull()) state.makeRoom(index);
+                state.push(result.value);
 
-                // console.log("After")
-                // console.log(`iterator ${index}`)
-                // console.log("buffer", streamBuffer)
-                // console.log(`index position: ${iteratorIndexPositions[index]}`)
-
-                return { value: result.value!, done: false }
+                return { value: state.read(index), done: false }
 
             },
             return(value) {
                 if(!done) {
                     done = true;
+                    closeBranch(index);
                 }
                 return { value, done}
             },
             throw(e) {
                 if(!done) {
                     done = true;
+                    closeBranch(index);
                 }
                 throw e
-            }
+            },
+            inspect: state.inspect
         }   
     }
 
     return Array(count).fill(0).map((_, idx) => createTeedIterator(idx))
 }
 
-
-/** Shared buffer and position helpers for tee iterators (sync/async) */
-function makeTeeBufferHelpers(count: number) {
-    const iteratorIndexPositions: number[] = Array(count).fill(0);
-    const streamBuffer: any[] = [];
-    return {
-        iteratorIndexPositions,
-        streamBuffer,
-        cleanupStreamBuffer() {
-            const smallestConsumedIndex = Math.min(...iteratorIndexPositions);
-            const deletedElementsCount = smallestConsumedIndex;
-            streamBuffer.splice(0, deletedElementsCount);
-            for (let i = 0; i < count; i++) {
-                iteratorIndexPositions[i] -= deletedElementsCount;
-            }
-        }
-    };
-}
-
 /**
  * Creates multiple independent lazy async iterators from a single async iterable/iterator source.
  * Each returned async iterator yields the same sequence of values as the original, but can be consumed at different rates.
+ *
+ * Elements read by some branches but not others are buffered. Pass `options.maxBuffer` to bound the buffer, and
+ * `options.policy` to choose what happens when it is full (see {@link TeeBufferPolicy}). Under the default `block`
+ * policy a branch that gets `maxBuffer` elements ahead waits for the slowest branch, so branches must be consumed
+ * concurrently rather than one after another.
  * @template T
  * @param {AsyncIterable<T>|AsyncIterator<T>} sourceAsyncIterable - The async iterable/iterator to split.
  * @param {number} count - The number of async iterators to create.
- * @returns {AsyncIterableIterator<T>[]} An array of independent async iterators.
+ * @param {TeeOptions} [options] - Buffer bound and overflow policy.
+ * @returns {AsyncTeeIterator<T>[]} An array of independent async iterators.
  * @throws {Error} If incorrect arguments are provided or the source is not async iterable/iterator.
  */
-export function createAsyncTeeIterators<T>(sourceAsyncIterable: AsyncIterable<T> | AsyncIterator<T>, count: number): AsyncIterableIterator<T>[] {
-    if (arguments.length !== 2) throw new Error(`Expected 2 arguments but received: ${arguments.length}`);
+export function createAsyncTeeIterators<T>(sourceAsyncIterable: AsyncIterable<T> | AsyncIterator<T>, count: number, options?: TeeOptions): AsyncTeeIterator<T>[] {
+    if (arguments.length < 2 || arguments.length > 3) throw new Error(`Expected 2 or 3 arguments but received: ${arguments.length}`);
     if (!sourceAsyncIterable || (typeof sourceAsyncIterable !== 'object')) throw new Error(`Expected Arg 1 to be an async iterable or async iterator.`);
     if (!(typeof count === 'number')) throw new Error(`Expected Arg 2 to be an integer`);
     count = Math.floor(count);
 
+    const { maxBuffer, policy } = resolveTeeOptions(options, true);
+
     // Get async iterator from input
     let sourceIterator: AsyncIterator<T>;
     if (typeof (sourceAsyncIterable as any)[Symbol.asyncIterator] === 'function') {
@@ -169,9 +400,15 @@ export function createAsyncTeeIterators<T>(sourceAsyncIterable: AsyncIterable<T>
         throw new Error('Source is not async iterable or async iterator');
     }
 
-    const { iteratorIndexPositions, streamBuffer, cleanupStreamBuffer } = makeTeeBufferHelpers(count);
+    const state = makeTeeState(count, maxBuffer, policy);
+    const { branchStates } = state;
     let streamExhausted = false;
     let streamError: Error | null = null;
+    /**
+     * The source pull in progress, if any. Branches that reach the end of the buffer while it is pending
+     * wait for it instead of pulling again, so every element lands in the buffer in source order.
+     */
+    let pendingPull: Promise<IteratorResult<T>> | null = null;
 
     async function getNextStreamElementAsync() {
         if (streamExhausted) return { value: undefined, done: true };
@@ -186,42 +423,77 @@ export function createAsyncTeeIterators<T>(sourceAsyncIterable: AsyncIterable<T>
         }
     }
 
-    function createTeedAsyncIterator(index: number): AsyncIterableIterator<T> {
+    let openBranches = count;
+
+    /**
+     * Marks a branch as closed. Its position no longer holds elements in the buffer, and once every
+     * branch has closed the source iterator is closed too, unless it has already finished.
+     */
+    async function closeBranch(index: number) {
+        state.releaseBranch(index, 'done');
+        openBranches--;
+        if (openBranches > 0) return;
+        state.clear();
+        if (!streamExhausted && !streamError) await sourceIterator.return?.();
+    }
+
+    function createTeedAsyncIterator(index: number): AsyncTeeIterator<T> {
         let done = false;
         return {
             [Symbol.asyncIterator]() {
                 return this;
             },
             async next(): Promise<IteratorResult<T>> {
-                if (done) return { value: undefined, done: true };
-                if (iteratorIndexPositions[index] < streamBuffer.length) {
-                    const value = streamBuffer[iteratorIndexPositions[index]];
-                    iteratorIndexPositions[index]++;
-                    cleanupStreamBuffer();
-                    return { value, done: false };
-                }
-                const result = await getNextStreamElementAsync();
-                if (result.done) {
-                    done = true;
-                    return { done: true, value: undefined };
+                while (true) {
+                    if (done) return { value: undefined, done: true };
+                    if (branchStates[index] === 'detached') {
+                        done = true;
+                        await closeBranch(index);
+                        throw detachedBranchError(index, maxBuffer);
+                    }
+                    if (state.hasBuffered(index)) return { value: state.read(index), done: false };
+                    if (pendingPull) {
+                        await pendingPull.catch(() => undefined);
+                        continue;
+                    }
+                    // Backpressure policies apply before pulling, the lossy policies only once there is an element to make room for
+                    if (state.isFull() && policy === 'block') {
+                        await state.waitForRoom();
+                        continue;
+                    }
+                    if (state.isFull() && policy === 'error') state.makeRoom(index);
+                    pendingPull = getNextStreamElementAsync() as Promise<IteratorResult<T>>;
+                    let result: IteratorResult<T>;
+                    try {
+                        result = await pendingPull;
+                    } finally {
+                        pendingPull = null;
+                    }
+                    if (result.done) {
+                        done = true;
+                        state.releaseBranch(index, 'done');
+                        openBranches--;
+                        return { done: true, value: undefined };
+                    }
+                    if (state.isFull()) state.makeRoom(index);
+                    state.push(result.value);
                 }
-                streamBuffer.push(result.value!);
-                iteratorIndexPositions[index]++;
-                cleanupStreamBuffer();
-                return { value: result.value!, done: false };
             },
             async return(value) {
                 if (!done) {
                     done = true;
+                    await closeBranch(index);
                 }
                 return { value, done };
             },
             async throw(e) {
                 if (!done) {
                     done = true;
+                    await closeBranch(index);
                 }
                 throw e;
-            }
+            },
+            inspect: state.inspect
         };
     }
 
@@ -264,19 +536,48 @@ export type TeeConsumer<T,S=any> = {
 {
     fn: (val: T, idx: number) => void,
     kind: 'forEach',
+} |
+{
+    fn: (val: T, idx: number) => unknown,
+    kind: 'approxDistinct',
+    precision?: number
+} |
+{
+    fn: (val: T, idx: number) => number,
+    kind: 'approxQuantiles',
+    compression?: number
+} |
+{
+    fn: (val: T, idx: number) => unknown,
+    kind: 'heavyHitters',
+    capacity?: number
 };
 
-type res = ExtractReturnTypeFromFuncArray<ExtractFnFromTeeConsumer<[
-    { fn: (val: number, idx: number) => string, kind: 'map'},
-    { fn: (acc: number, curr: number, idx: number) => number, kind: 'reduce', initVal?: number}
-]>>
-
 
 // type TeeConsumer<T,S=any> = TeeConsumerFn<T> | TeeConsumserConfigurable<T,S>
 
+ /**
+ * Returns the sketch an approximate consumer fills, or undefined for the other kinds. Sketch options are validated here,
+ * before any consumer runs.
+ */
+function createConsumerSketch<T>(consumer: TeeConsumer<T>): HyperLogLog | TDigest | SpaceSaving | undefined {
+    switch(consumer.kind) {
+        case 'approxDistinct':
+            return new HyperLogLog({ precision: consumer.precision });
+        case 'approxQuantiles':
+            return new TDigest({ compression: consumer.compression });
+        case 'heavyHitters':
+            return new SpaceSaving({ capacity: consumer.capacity });
+        default:
+            return undefined;
+    }
+}
+
  /**
  * Applies multiple consumer operations (map, filter, reduce, forEach) in parallel to an array, using independent iterators for each consumer.
- * Each consumer receives elements and their index, and results are returned in an array matching the order of consumer
+ * Each consumer receives elements and their index, and results are returned in an array matching the order of consumer.
+ * The approxDistinct, approxQuantiles and heavyHitters kinds add what `fn` returns to a HyperLogLog, TDigest or
+ * SpaceSaving sketch (configured by their `precision`, `compression` and `capacity` properties) and return the sketch.
  * @throws {TypeError|Error} If invalid arguments or consumer configuration are provided.
  *
  * @example
@@ -288,6 +589,12 @@ type res = ExtractReturnTypeFromFuncArray<ExtractFnFromTeeConsumer<[
  *   { kind: 'forEach', fn: (x, i) => console.log(x) }
  * );
  * // results: [[2,4,6], [1,3], 6, undefined]
+ *
+ * const [users, latency] = requests.tee(
+ *   { kind: 'approxDistinct', fn: r => r.userId },
+ *   { kind: 'approxQuantiles', fn: r => r.ms, compression: 200 }
+ * );
+ * // users.count(), latency.quantile(0.99)
  */
 export function teeConsumers<T,S>(this: Array<T>, ...consumers: TeeConsumer<T,S>[]) {
     // Runtime type checking for params
@@ -316,6 +623,7 @@ export function teeConsumers<T,S>(this: Array<T>, ...consumers: TeeConsumer<T,S>
     // Prepare iterators and results
     const consumerFns = Array.from(consumers);
     const outResults: any[] = Array(consumerFns.length).fill(0);
+    const sketches = consumerFns.map(consumer => createConsumerSketch(consumer));
     const iterators = createTeeIterators(this, consumerFns.length);
 
     // Process each consumer in parallel
@@ -352,6 +660,11 @@ export function teeConsumers<T,S>(this: Array<T>, ...consumers: TeeConsumer<T,S>
                             filterResult.push(elem);
                     }
                     break;
+                case 'approxDistinct':
+                case 'approxQuantiles':
+                case 'heavyHitters':
+                    sketches[consumerIdx]!.add(fn.fn(elem, elementIdx));
+                    break;
                 default:
                     throw new Error(`Unknown consumer kind: ${String((fn as any).kind)}`);
             }
@@ -371,6 +684,11 @@ export function teeConsumers<T,S>(this: Array<T>, ...consumers: TeeConsumer<T,S>
             case 'filter':
                 outResults[consumerIdx] = filterResult;
                 break;
+            case 'approxDistinct':
+            case 'approxQuantiles':
+            case 'heavyHitters':
+                outResults[consumerIdx] = sketches[consumerIdx];
+                break;
         }
     }
     // Return all results
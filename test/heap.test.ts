@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { BinaryHeap } from '../src/heap';
+
+describe('BinaryHeap', () => {
+  it('should pop values in comparator order', () => {
+    const heap = new BinaryHeap<number>((a, b) => a - b);
+    for (const value of [5, 1, 4, 1, 3, 9, 2]) heap.push(value);
+    expect(heap.size).toBe(7);
+    expect(heap.peek()).toBe(1);
+    const out: number[] = [];
+    while (heap.size > 0) out.push(heap.pop()!);
+    expect(out).toEqual([1, 1, 2, 3, 4, 5, 9]);
+    expect(heap.pop()).toBeUndefined();
+    expect(heap.peek()).toBeUndefined();
+  });
+
+  it('should act as a max-heap with a reversed comparator', () => {
+    const heap = new BinaryHeap<string>((a, b) => b.localeCompare(a));
+    ['b', 'd', 'a', 'c'].forEach(value => heap.push(value));
+    expect([heap.pop(), heap.pop(), heap.pop(), heap.pop()]).toEqual(['d', 'c', 'b', 'a']);
+  });
+
+  it('should replaceTop() and drain()', () => {
+    const heap = new BinaryHeap<number>((a, b) => a - b);
+    [4, 2, 6].forEach(value => heap.push(value));
+    expect(heap.replaceTop(5)).toBe(2);
+    expect(heap.peek()).toBe(4);
+    expect(heap.drain().sort()).toEqual([4, 5, 6]);
+    expect(heap.size).toBe(0);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import '../src/index.ts';
+import { createAsyncTeeIterators } from '../src/index.ts';
 
 describe('Array.tee', () => {
   it('should split an array into two independent iterators', () => {
@@ -101,6 +101,105 @@ describe('Array.tee', () => {
     expect(it1.return && it1.return(42)).toEqual({ value: 42, done: true });
     expect(() => it2.throw && it2.throw(new Error('fail'))).toThrow('fail');
   });
+
+  it('should close the source only after every branch has closed', () => {
+    let closed = false;
+    function* source() {
+      try { yield 1; yield 2; yield 3; } finally { closed = true; }
+    }
+    const [it1, it2] = Array.tee(source(), 2);
+    expect(it1.next().value).toBe(1);
+    it1.return!();
+    expect(closed).toBe(false);
+    expect(it2.next().value).toBe(1);
+    expect(it2.next().value).toBe(2);
+    it2.return!();
+    expect(closed).toBe(true);
+  });
+});
+
+describe('tee buffer policies', () => {
+  it('should keep the buffer unbounded by default and report lag', () => {
+    const [fast, slow] = Array.tee([1, 2, 3, 4], 2);
+    fast.next(); fast.next(); fast.next();
+    expect(fast.inspect()).toEqual({
+      bufferDepth: 3,
+      maxBuffer: Infinity,
+      policy: 'error',
+      branches: [{ lag: 0, state: 'open' }, { lag: 3, state: 'open' }]
+    });
+    slow.next();
+    expect(slow.inspect().bufferDepth).toBe(2);
+  });
+
+  it('should throw under the error policy until the slow branch catches up', () => {
+    const [fast, slow] = Array.tee([1, 2, 3, 4], 2, { maxBuffer: 2 });
+    expect(fast.next().value).toBe(1);
+    expect(fast.next().value).toBe(2);
+    expect(() => fast.next()).toThrow('Tee buffer is full');
+    expect(slow.next().value).toBe(1);
+    expect(fast.next().value).toBe(3);
+    expect(Array.from(slow)).toEqual([2, 3, 4]);
+    expect(Array.from(fast)).toEqual([4]);
+  });
+
+  it('should skip dropped elements under the dropOldest policy', () => {
+    const [fast, slow] = Array.tee([1, 2, 3, 4, 5], 2, { maxBuffer: 2, policy: 'dropOldest' });
+    expect(Array.from(fast)).toEqual([1, 2, 3, 4, 5]);
+    expect(fast.inspect().bufferDepth).toBe(2);
+    expect(Array.from(slow)).toEqual([4, 5]);
+  });
+
+  it('should detach lagging branches under the detachSlow policy', () => {
+    const [fast, slow, other] = Array.tee([1, 2, 3, 4], 3, { maxBuffer: 2, policy: 'detachSlow' });
+    expect(other.next().value).toBe(1);
+    expect(Array.from(fast)).toEqual([1, 2, 3, 4]);
+    expect(fast.inspect().branches.map(b => b.state)).toEqual(['done', 'detached', 'detached']);
+    expect(() => slow.next()).toThrow('was detached');
+    expect(slow.next().done).toBe(true);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => Array.tee([1], 2, { maxBuffer: 0 })).toThrow();
+    // @ts-expect-error
+    expect(() => Array.tee([1], 2, { policy: 'wait' })).toThrow();
+    expect(() => Array.tee([1], 2, { policy: 'block' })).toThrow('only supported by async tees');
+  });
+
+  it('should make a fast async branch wait for the slow one under the block policy', async () => {
+    async function* source() { yield* [1, 2, 3, 4]; }
+    const [fast, slow] = createAsyncTeeIterators(source(), 2, { maxBuffer: 2 });
+    const fastRead = (async () => {
+      const out: number[] = [];
+      for await (const x of fast) out.push(x);
+      return out;
+    })();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(fast.inspect().bufferDepth).toBe(2);
+    expect(fast.inspect().branches[1].lag).toBe(2);
+
+    const slowOut: number[] = [];
+    for await (const x of slow) {
+      slowOut.push(x);
+      expect(slow.inspect().bufferDepth).toBeLessThanOrEqual(2);
+    }
+    expect(slowOut).toEqual([1, 2, 3, 4]);
+    expect(await fastRead).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should keep source order when async branches pull at the same time', async () => {
+    async function* source() {
+      for (let i = 1; i <= 4; i++) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        yield i;
+      }
+    }
+    const [a, b] = createAsyncTeeIterators(source(), 2);
+    const [ra, rb] = await Promise.all([a.next(), b.next()]);
+    expect([ra.value, rb.value]).toEqual([1, 1]);
+    const [ra2, rb2] = await Promise.all([a.next(), b.next()]);
+    expect([ra2.value, rb2.value]).toEqual([2, 2]);
+  });
 });
 
 describe('Array.prototype.tee', () => {
@@ -132,6 +231,20 @@ describe('Array.prototype.tee', () => {
     expect(results[3]).toBeUndefined();
   });
 
+  it('should fill approximate sketches as consumer kinds', () => {
+    const requests = Array.from({ length: 1000 }, (_, i) => ({ user: i % 120, ms: i % 200, path: i % 3 === 0 ? '/' : `/item/${i}` }));
+    const [users, latency, paths] = requests.tee(
+      { kind: 'approxDistinct', fn: r => r.user, precision: 10 },
+      { kind: 'approxQuantiles', fn: r => r.ms, compression: 100 },
+      { kind: 'heavyHitters', fn: r => r.path, capacity: 8 }
+    );
+    expect(Math.abs(users.count() - 120)).toBeLessThanOrEqual(3);
+    expect(latency.quantile(0)).toBe(0);
+    expect(latency.quantile(1)).toBe(199);
+    expect(paths.top(1)[0].key).toBe('/');
+    expect(() => requests.tee({ kind: 'heavyHitters', fn: r => r.path, capacity: -1 })).toThrow('capacity must be a positive integer');
+  });
+
   it('should throw for invalid consumer config', () => {
     const arr: number[] = [1, 2, 3];
     //@ts-expect-error
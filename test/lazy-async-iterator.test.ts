@@ -1,6 +1,12 @@
 import { LazyAsyncIterator } from '../src/lazy-async-iterator';
-import { describe, it, expect } from 'vitest';
+import { AbortError, TimeoutError, RetryError } from '../src/errors';
+import { HyperLogLog } from '../src/sketches';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { inspect } from 'util';
+import { getEventListeners } from 'events';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('LazyAsyncIterator', () => {
   // 1. Construction and .from()
@@ -69,6 +75,30 @@ describe('LazyAsyncIterator', () => {
       const result = await iter.execute();
       expect(result).toBe(10);
     });
+    it('reduce folds without collecting the pipeline', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      async function* source() {
+        for (let i = 1; i <= 5; i++) { inFlight++; maxInFlight = Math.max(maxInFlight, inFlight); yield i; }
+      }
+      const result = await LazyAsyncIterator.from(source())
+        .reduce((acc, curr) => { inFlight--; return acc + curr; }, 0)
+        .execute();
+      expect(result).toBe(15);
+      expect(maxInFlight).toBe(1);
+    });
+    it('reduceAsync awaits the reducer', async () => {
+      const result = await LazyAsyncIterator.from(['a', 'b', 'c'])
+        .reduceAsync(async (acc, curr, idx) => `${acc}${curr}${idx}`, '')
+        .execute();
+      expect(result).toBe('a0b1c2');
+    });
+    it('scan emits running accumulations', async () => {
+      const iter = LazyAsyncIterator.from([1, 2, 3])
+        .scan((acc, curr) => [...acc, curr], [] as number[])
+        .map(arr => arr.length);
+      expect(await iter.collect()).toEqual([1, 2, 3]);
+    });
     it('chaining sync and async methods', async () => {
       const iter = LazyAsyncIterator.from([1, 2, 3, 4])
         .map(x => x + 1)
@@ -91,19 +121,1053 @@ describe('LazyAsyncIterator', () => {
     });
     it('take returns first n values', async () => {
       const iter = LazyAsyncIterator.from([1, 2, 3, 4, 5]);
-      expect(await iter.take(3)).toEqual([1, 2, 3]);
+      expect(await iter.take(3).collect()).toEqual([1, 2, 3]);
     });
     it('drop skips first n values', async () => {
       const iter = LazyAsyncIterator.from([1, 2, 3, 4, 5]);
-      expect(await iter.drop(2)).toEqual([3, 4, 5]);
+      expect(await iter.drop(2).collect()).toEqual([3, 4, 5]);
     });
     it('takeWhile returns values while predicate is true', async () => {
       const iter = LazyAsyncIterator.from([1, 2, 3, 2, 1]);
-      expect(await iter.takeWhile(x => x < 3)).toEqual([1, 2]);
+      expect(await iter.takeWhile(x => x < 3).collect()).toEqual([1, 2]);
     });
     it('dropWhile skips values while predicate is true', async () => {
       const iter = LazyAsyncIterator.from([1, 2, 3, 2, 1]);
-      expect(await iter.dropWhile(x => x < 3)).toEqual([3, 2, 1]);
+      expect(await iter.dropWhile(x => x < 3).collect()).toEqual([3, 2, 1]);
+    });
+  });
+
+  describe('lazy limiting stages', () => {
+    it('take and drop chain over an infinite async source', async () => {
+      let pulled = 0;
+      async function* naturals() {
+        for (let i = 0; ; i++) { pulled++; yield i; }
+      }
+      const iter = LazyAsyncIterator.from(naturals()).drop(100).take(3).mapAsync(async x => x + 1);
+      expect(await iter.collect()).toEqual([101, 102, 103]);
+      expect(pulled).toBe(103);
+    });
+    it('take(0) does not pull from the source', async () => {
+      let pulled = 0;
+      const iter = LazyAsyncIterator.from([1, 2, 3]).forEach(() => { pulled++; }).take(0);
+      expect(await iter.collect()).toEqual([]);
+      expect(pulled).toBe(0);
+    });
+    it('takeWhile stops at the first failing value', async () => {
+      const seen: number[] = [];
+      const iter = LazyAsyncIterator.from([1, 2, 3, 4]).forEach(x => { seen.push(x); }).takeWhile(x => x < 3);
+      expect(await iter.collect()).toEqual([1, 2]);
+      expect(seen).toEqual([1, 2, 3]);
+    });
+    it('validates take and drop arguments eagerly', () => {
+      expect(() => LazyAsyncIterator.from([1]).take(-1)).toThrow();
+      expect(() => LazyAsyncIterator.from([1]).drop(-1)).toThrow();
+    });
+  });
+
+  describe('immutable pipelines', () => {
+    it('branches from a base pipeline without affecting each other', async () => {
+      const base = LazyAsyncIterator.from([1, 2, 3, 4]).mapAsync(async x => x * 10);
+      const a = base.filter(x => x > 20);
+      const b = base.map(x => x + 1);
+      expect(await a.collect()).toEqual([30, 40]);
+      expect(await b.collect()).toEqual([11, 21, 31, 41]);
+      expect(await base.collect()).toEqual([10, 20, 30, 40]);
+    });
+    it('shares a single-pass async source between branches', async () => {
+      async function* gen() { yield 1; yield 2; yield 3; }
+      const base = LazyAsyncIterator.from(gen());
+      expect((await base.next()).value).toBe(1);
+      expect(await base.map(x => x * 2).collect()).toEqual([4, 6]);
+    });
+  });
+
+  describe('flatMap', () => {
+    it('expands arrays, sync iterables and async iterables', async () => {
+      async function* pair(x: number) { yield x; yield x * 10; }
+      const fromArrays = LazyAsyncIterator.from([1, 2]).flatMap(x => [x, x]);
+      const fromSets = LazyAsyncIterator.from([1, 2]).flatMap(x => new Set([x]));
+      const fromAsync = LazyAsyncIterator.from([1, 2]).flatMap(x => pair(x));
+      expect(await fromArrays.collect()).toEqual([1, 1, 2, 2]);
+      expect(await fromSets.collect()).toEqual([1, 2]);
+      expect(await fromAsync.collect()).toEqual([1, 10, 2, 20]);
+    });
+    it('flatMapAsync expands the resolved iterable', async () => {
+      async function* pages() { yield { items: [1, 2] }; yield { items: [] as number[] }; yield { items: [3] }; }
+      const iter = LazyAsyncIterator.from(pages())
+        .flatMapAsync(async page => page.items)
+        .map(x => x * 2);
+      expect(await iter.collect()).toEqual([2, 4, 6]);
+    });
+    it('pulls inner items lazily', async () => {
+      let produced = 0;
+      async function* forever(x: number) { while (true) { produced++; yield x; } }
+      const iter = LazyAsyncIterator.from([7]).flatMap(x => forever(x)).take(3);
+      expect(await iter.collect()).toEqual([7, 7, 7]);
+      expect(produced).toBe(3);
+    });
+    it('rejects when the callback returns a non-iterable', async () => {
+      const iter = LazyAsyncIterator.from([1]).flatMapAsync(async x => x as any);
+      await expect(iter.collect()).rejects.toThrow(TypeError);
+    });
+  });
+
+  describe('bounded concurrency', () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('keeps up to `concurrency` mapAsync calls in flight and preserves order', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const iter = LazyAsyncIterator.from([30, 10, 20, 5, 15]).mapAsync(async (ms, i) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(ms);
+        inFlight--;
+        return `${i}:${ms}`;
+      }, { concurrency: 3 });
+      expect(await iter.collect()).toEqual(['0:30', '1:10', '2:20', '3:5', '4:15']);
+      expect(maxInFlight).toBe(3);
+    });
+    it('emits results as they complete when ordered is false', async () => {
+      const iter = LazyAsyncIterator.from([30, 5, 15]).mapAsync(async (ms, i) => {
+        await delay(ms);
+        return i;
+      }, { concurrency: 3, ordered: false });
+      expect(await iter.collect()).toEqual([1, 2, 0]);
+    });
+    it('starts a new call as soon as one finishes instead of waiting for a batch', async () => {
+      const started: number[] = [];
+      const iter = LazyAsyncIterator.from([40, 5, 5, 5]).mapAsync(async (ms, i) => {
+        started.push(i);
+        await delay(ms);
+        return i;
+      }, { concurrency: 2, ordered: false });
+      expect((await iter.next()).value).toBe(1);
+      // call 2 takes the free slot while call 0 is still running
+      expect((await iter.next()).value).toBe(2);
+      expect(started).toEqual([0, 1, 2]);
+      await iter.return();
+    });
+    it('filters concurrently and keeps source order', async () => {
+      const iter = LazyAsyncIterator.from([1, 2, 3, 4, 5, 6])
+        .filterAsync(async x => {
+          await delay(10 - x);
+          return x % 2 === 0;
+        }, { concurrency: 4 })
+        .map((x, i) => [x, i]);
+      expect(await iter.collect()).toEqual([[2, 1], [4, 3], [6, 5]]);
+    });
+    it('never pulls the source after it reports done', async () => {
+      let pulls = 0;
+      const source: AsyncIterator<number> & AsyncIterable<number> = {
+        async next() {
+          pulls++;
+          return pulls <= 2 ? { done: false, value: pulls } : { done: true, value: undefined };
+        },
+        [Symbol.asyncIterator]() { return this; }
+      };
+      const iter = LazyAsyncIterator.from(source).mapAsync(async x => x * 10, { concurrency: 4 });
+      expect(await iter.collect()).toEqual([10, 20]);
+      expect(await iter.next()).toEqual({ done: true, value: undefined });
+      expect(pulls).toBe(3);
+    });
+    it('surfaces a rejected call in order and keeps going', async () => {
+      const iter = LazyAsyncIterator.from([1, 2, 3]).mapAsync(async x => {
+        if (x === 2) throw new Error('fail');
+        return x;
+      }, { concurrency: 2 });
+      const results = await iter.collectSettled();
+      expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    });
+    it('rejects invalid concurrency', () => {
+      const iter = LazyAsyncIterator.from([1]);
+      expect(() => iter.mapAsync(async x => x, { concurrency: 0 })).toThrow();
+      expect(() => iter.filterAsync(async () => true, { concurrency: 1.5 })).toThrow();
+    });
+    it('serializes overlapping next() calls', async () => {
+      let pulls = 0;
+      const source: AsyncIterator<number> & AsyncIterable<number> = {
+        async next() {
+          pulls++;
+          await delay(1);
+          return pulls <= 3 ? { done: false, value: pulls } : { done: true, value: undefined };
+        },
+        [Symbol.asyncIterator]() { return this; }
+      };
+      const iter = LazyAsyncIterator.from(source).map((x, i) => [x, i]);
+      expect(await iter.collect(5)).toEqual([[1, 0], [2, 1], [3, 2]]);
+      expect(pulls).toBe(4);
+    });
+  });
+
+  describe('cancellation', () => {
+    const never = () => new Promise<never>(() => {});
+
+    it('rejects a next() that is stuck in an await when the pipeline signal aborts', async () => {
+      async function* source() {
+        yield 1;
+        await never();
+      }
+      const controller = new AbortController();
+      const iter = LazyAsyncIterator.from(source(), { signal: controller.signal }).map(x => x * 2);
+      expect((await iter.next()).value).toBe(2);
+      const pending = iter.next();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      controller.abort('client disconnected');
+      const error = await pending.catch(e => e);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error.cause).toBe('client disconnected');
+      await expect(iter.next()).rejects.toThrow(AbortError);
+    });
+    it('aborts the signal of callbacks still in flight when the pipeline is closed early', async () => {
+      const signals: AbortSignal[] = [];
+      const results = await LazyAsyncIterator.from([1, 2, 3, 4])
+        .mapAsync(async (x, i, signal) => {
+          signals.push(signal);
+          await new Promise(resolve => setTimeout(resolve, x === 1 ? 0 : 50));
+          return x;
+        }, { concurrency: 4 })
+        .take(1)
+        .collect();
+      expect(results).toEqual([1]);
+      expect(signals).toHaveLength(4);
+      expect(signals.every(signal => signal.aborted)).toBe(true);
+      expect(signals[0].reason).toBeInstanceOf(AbortError);
+    });
+    it('stops listening to the pipeline signal once the pipeline finishes', async () => {
+      const controller = new AbortController();
+      const base = LazyAsyncIterator.from([1, 2, 3], { signal: controller.signal });
+      for (let i = 0; i < 12; i++) expect(await base.map(x => x + i).collect()).toHaveLength(3);
+      await base.take(1).collect();
+      const [left, right] = base.tee(2);
+      await Promise.all([left.collect(), right.collect()]);
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+    });
+    it('closes a source that is not stuck when aborted', async () => {
+      let closed = false;
+      async function* source() {
+        try { yield 1; yield 2; } finally { closed = true; }
+      }
+      const controller = new AbortController();
+      const iter = LazyAsyncIterator.from(source(), { signal: controller.signal });
+      await iter.next();
+      controller.abort();
+      await expect(iter.next()).rejects.toThrow(AbortError);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(closed).toBe(true);
+    });
+    it('passes the signal into async callbacks', async () => {
+      const controller = new AbortController();
+      const seen: AbortSignal[] = [];
+      const iter = LazyAsyncIterator.from([1, 2, 3], { signal: controller.signal })
+        .mapAsync(async (x, i, signal) => {
+          seen.push(signal);
+          if (x === 2) {
+            controller.abort();
+            return never();
+          }
+          return x;
+        });
+      await expect(iter.collect()).rejects.toThrow(AbortError);
+      expect(seen).toHaveLength(2);
+      expect(seen[1].aborted).toBe(true);
+    });
+    it('applies the pipeline signal to derived pipelines', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const base = LazyAsyncIterator.from([1, 2], { signal: controller.signal });
+      await expect(base.filter(x => x > 0).collect()).rejects.toThrow(AbortError);
+    });
+    it('aborts through a terminal signal', async () => {
+      const controller = new AbortController();
+      const iter = LazyAsyncIterator.from([1, 2, 3]).mapAsync(async x => {
+        if (x === 2) controller.abort();
+        return x;
+      });
+      await expect(iter.collect({ signal: controller.signal })).rejects.toThrow(AbortError);
+    });
+    it('stops settled terminals instead of collecting the abort', async () => {
+      const controller = new AbortController();
+      const iter = LazyAsyncIterator.from([1, 2, 3]).mapAsync(async x => {
+        if (x === 2) controller.abort();
+        return x;
+      });
+      await expect(iter.collectSettled({ signal: controller.signal, concurrency: 2 })).rejects.toThrow(AbortError);
+    });
+    it('aborts reduce().execute() through its signal', async () => {
+      const controller = new AbortController();
+      const iter = LazyAsyncIterator.from([1, 2, 3]).forEach(x => {
+        if (x === 2) controller.abort();
+      });
+      await expect(iter.reduce((acc, x) => acc + x, 0).execute({ signal: controller.signal })).rejects.toThrow(AbortError);
+    });
+    it('can be aborted directly', async () => {
+      const iter = LazyAsyncIterator.from([1, 2, 3]);
+      expect((await iter.next()).value).toBe(1);
+      iter.abort();
+      await expect(iter.next()).rejects.toThrow(AbortError);
+    });
+    it('stops listening to a terminal signal once the terminal finishes', async () => {
+      const controller = new AbortController();
+      const iter = LazyAsyncIterator.from([1, 2]);
+      expect(await iter.collect({ signal: controller.signal })).toEqual([1, 2]);
+      controller.abort();
+      expect(await iter.next()).toEqual({ done: true, value: undefined });
+    });
+  });
+
+  describe('timeouts', () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('rejects a slow mapAsync call with a TimeoutError and moves on', async () => {
+      const iter = LazyAsyncIterator.from([1, 200, 3]).mapAsync(async ms => {
+        await delay(ms);
+        return ms;
+      }, { timeout: 50 });
+      const results = await iter.collectSettled();
+      expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+      const rejected = results[1] as PromiseRejectedResult;
+      expect(rejected.reason).toBeInstanceOf(TimeoutError);
+      expect(rejected.reason.timeout).toBe(50);
+    });
+    it('aborts the signal of a call that timed out', async () => {
+      let signal: AbortSignal | undefined;
+      const iter = LazyAsyncIterator.from([1]).mapAsync((x, i, s) => {
+        signal = s;
+        return new Promise(() => {});
+      }, { timeout: 10 });
+      await expect(iter.collect()).rejects.toThrow(TimeoutError);
+      expect(signal!.aborted).toBe(true);
+      expect(signal!.reason).toBeInstanceOf(TimeoutError);
+    });
+    it('applies timeouts to concurrent stages', async () => {
+      const iter = LazyAsyncIterator.from([5, 200, 5, 5])
+        .filterAsync(async ms => {
+          await delay(ms);
+          return true;
+        }, { concurrency: 2, timeout: 50 });
+      const results = await iter.takeSettled(4);
+      expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+    });
+    it('aborts the whole pipeline once the deadline runs out', async () => {
+      let closed = false;
+      async function* source() {
+        try {
+          for (let i = 0; ; i++) {
+            await delay(10);
+            yield i;
+          }
+        } finally {
+          closed = true;
+        }
+      }
+      const iter = LazyAsyncIterator.from(source(), { deadline: 50 }).map(x => x);
+      const error = await iter.collect().catch(e => e);
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.timeout).toBe(50);
+      await delay(20);
+      expect(closed).toBe(true);
+    });
+    it('stops settled terminals when the deadline runs out', async () => {
+      const iter = LazyAsyncIterator.from([1, 2, 3], { deadline: 20 }).mapAsync(async x => {
+        await delay(15);
+        return x;
+      });
+      await expect(iter.collectSettled()).rejects.toThrow(TimeoutError);
+    });
+    it('does not fire the deadline after the pipeline finishes', async () => {
+      const iter = LazyAsyncIterator.from([1, 2], { deadline: 10 });
+      expect(await iter.collect()).toEqual([1, 2]);
+      await delay(20);
+      expect(await iter.next()).toEqual({ done: true, value: undefined });
+    });
+    it('rejects invalid timeouts', () => {
+      expect(() => LazyAsyncIterator.from([1]).mapAsync(async x => x, { timeout: 0 })).toThrow();
+      expect(() => LazyAsyncIterator.from([1], { deadline: -1 })).toThrow();
+    });
+  });
+
+  describe('retry', () => {
+    it('retries a flaky mapAsync call until it succeeds', async () => {
+      const calls = new Map<number, number>();
+      const iter = LazyAsyncIterator.from([1, 2, 3]).mapAsync(async x => {
+        const count = (calls.get(x) ?? 0) + 1;
+        calls.set(x, count);
+        if (x === 2 && count < 3) throw new Error('flaky');
+        return x * 10;
+      }, { retry: { attempts: 3, baseMs: 1 } });
+      expect(await iter.collect()).toEqual([10, 20, 30]);
+      expect(calls.get(2)).toBe(3);
+    });
+    it('shows the attempt history through collectSettled', async () => {
+      const iter = LazyAsyncIterator.from([1, 2]).mapAsync(async x => {
+        if (x === 2) throw new Error(`down`);
+        return x;
+      }, { retry: { attempts: 2, baseMs: 1 }, concurrency: 2 });
+      const results = await iter.collectSettled();
+      expect(results[0].status).toBe('fulfilled');
+      const reason = (results[1] as PromiseRejectedResult).reason;
+      expect(reason).toBeInstanceOf(RetryError);
+      expect(reason.history.map((h: any) => h.error.message)).toEqual(['down', 'down']);
+    });
+    it('retries timed-out attempts', async () => {
+      let calls = 0;
+      const iter = LazyAsyncIterator.from([1]).filterAsync(() => {
+        calls++;
+        return calls === 1 ? new Promise<boolean>(() => {}) : Promise.resolve(true);
+      }, { timeout: 10, retry: { attempts: 2, baseMs: 1 } });
+      expect(await iter.collect()).toEqual([1]);
+      expect(calls).toBe(2);
+    });
+    it('supports retry on forEachASync', async () => {
+      let calls = 0;
+      const iter = LazyAsyncIterator.from([1]).forEachASync(async () => {
+        if (calls++ === 0) throw new Error('once');
+      }, { retry: { attempts: 2, baseMs: 1 } });
+      expect(await iter.collect()).toEqual([1]);
+    });
+  });
+
+  describe('rate limiting', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('paces values with a token bucket after an initial burst', async () => {
+      vi.useFakeTimers();
+      const start = Date.now();
+      const times: number[] = [];
+      const result = LazyAsyncIterator.from([1, 2, 3, 4, 5])
+        .rateLimit({ perInterval: 2, intervalMs: 1000 })
+        .forEach(() => times.push(Date.now() - start))
+        .collect();
+      await vi.runAllTimersAsync();
+      expect(await result).toEqual([1, 2, 3, 4, 5]);
+      expect(times).toEqual([0, 0, 500, 1000, 1500]);
+    });
+    it('honours a smaller burst', async () => {
+      vi.useFakeTimers();
+      const start = Date.now();
+      const times: number[] = [];
+      const result = LazyAsyncIterator.from([1, 2, 3])
+        .rateLimit({ perInterval: 10, intervalMs: 1000, burst: 1 })
+        .forEach(() => times.push(Date.now() - start))
+        .collect();
+      await vi.runAllTimersAsync();
+      await result;
+      expect(times).toEqual([0, 100, 200]);
+    });
+    it('throttles values to one per interval', async () => {
+      vi.useFakeTimers();
+      const start = Date.now();
+      const times: number[] = [];
+      const result = LazyAsyncIterator.from([1, 2, 3])
+        .throttle(250)
+        .forEach(() => times.push(Date.now() - start))
+        .collect();
+      await vi.runAllTimersAsync();
+      await result;
+      expect(times).toEqual([0, 250, 500]);
+    });
+    it('holds the limit across concurrent downstream calls', async () => {
+      vi.useFakeTimers();
+      const start = Date.now();
+      const started: number[] = [];
+      const result = LazyAsyncIterator.from([1, 2, 3, 4])
+        .rateLimit({ perInterval: 1, intervalMs: 100 })
+        .mapAsync(async x => {
+          started.push(Date.now() - start);
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          return x;
+        }, { concurrency: 4 })
+        .collect(4);
+      await vi.runAllTimersAsync();
+      expect(await result).toEqual([1, 2, 3, 4]);
+      expect(started).toEqual([0, 100, 200, 300]);
+    });
+    it('only spends tokens on values that reach the stage', async () => {
+      vi.useFakeTimers();
+      const start = Date.now();
+      const times: number[] = [];
+      const result = LazyAsyncIterator.from([1, 2, 3, 4])
+        .filter(x => x % 2 === 0)
+        .throttle(100)
+        .forEach(() => times.push(Date.now() - start))
+        .collect();
+      await vi.runAllTimersAsync();
+      await result;
+      expect(times).toEqual([0, 100]);
+    });
+    it('rejects invalid options', () => {
+      const iter = LazyAsyncIterator.from([1]);
+      expect(() => iter.rateLimit({ perInterval: 0, intervalMs: 1000 })).toThrow('perInterval');
+      expect(() => iter.rateLimit({ perInterval: 1, intervalMs: 1000, burst: 0 })).toThrow('burst');
+      expect(() => iter.throttle(-5)).toThrow();
+    });
+  });
+
+  describe('batching', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('chunk groups values and emits the final partial batch', async () => {
+      expect(await LazyAsyncIterator.from([1, 2, 3, 4, 5]).chunk(2).collect()).toEqual([[1, 2], [3, 4], [5]]);
+      expect(await LazyAsyncIterator.from([]).chunk(2).collect()).toEqual([]);
+      expect(() => LazyAsyncIterator.from([1]).chunk(0)).toThrow();
+    });
+    it('flushes partial batches when a take or takeWhile ends the stream', async () => {
+      let closed = false;
+      async function* source() {
+        try { for (let i = 1; ; i++) yield i; } finally { closed = true; }
+      }
+      expect(await LazyAsyncIterator.from(source()).take(3).chunk(2).collect()).toEqual([[1, 2], [3]]);
+      expect(closed).toBe(true);
+      expect(await LazyAsyncIterator.from([1, 2, 3, 9]).takeWhile(x => x < 5).chunk(2).mapAsync(async b => b.length).collect())
+        .toEqual([2, 1]);
+    });
+    it('flushes the partial batch once a concurrent upstream stage is done', async () => {
+      const result = await LazyAsyncIterator.from([1, 2, 3, 4, 5])
+        .mapAsync(async x => x * 10, { concurrency: 3 })
+        .chunk(2)
+        .collect();
+      expect(result).toEqual([[10, 20], [30, 40], [50]]);
+    });
+    it('window emits sliding and tumbling windows', async () => {
+      expect(await LazyAsyncIterator.from([1, 2, 3, 4]).window(2).collect()).toEqual([[1, 2], [2, 3], [3, 4]]);
+      expect(await LazyAsyncIterator.from([1, 2, 3, 4, 5]).window(2, 2).collect()).toEqual([[1, 2], [3, 4]]);
+      expect(await LazyAsyncIterator.from([1, 2, 3, 4, 5, 6]).window(1, 3).collect()).toEqual([[1], [4]]);
+      expect(() => LazyAsyncIterator.from([1]).window(2, -1)).toThrow();
+    });
+    it('pairwise pairs each value with the previous one', async () => {
+      async function* readings() { yield* [10, 12, 11, 15]; }
+      const deltas = await LazyAsyncIterator.from(readings())
+        .pairwise()
+        .mapAsync(async ([prev, curr]) => curr - prev)
+        .collect();
+      expect(deltas).toEqual([2, -1, 4]);
+    });
+    it('bufferTime emits full batches without waiting', async () => {
+      const result = await LazyAsyncIterator.from([1, 2, 3, 4, 5])
+        .bufferTime({ maxSize: 2, maxWaitMs: 1000 })
+        .collect();
+      expect(result).toEqual([[1, 2], [3, 4], [5]]);
+    });
+    it('bufferTime flushes a partial batch when the source is slow', async () => {
+      vi.useFakeTimers();
+      const start = Date.now();
+      async function* source() {
+        yield 1;
+        yield 2;
+        await new Promise(resolve => setTimeout(resolve, 500));
+        yield 3;
+        await new Promise(resolve => setTimeout(resolve, 50));
+        yield 4;
+      }
+      const times: number[] = [];
+      const result = LazyAsyncIterator.from(source())
+        .bufferTime({ maxSize: 3, maxWaitMs: 100 })
+        .forEach(() => times.push(Date.now() - start))
+        .collect();
+      await vi.runAllTimersAsync();
+      expect(await result).toEqual([[1, 2], [3, 4]]);
+      expect(times).toEqual([100, 550]);
+    });
+    it('bufferTime does not lose the value pulled while a batch timed out', async () => {
+      vi.useFakeTimers();
+      async function* source() {
+        for (let i = 1; i <= 4; i++) {
+          await new Promise(resolve => setTimeout(resolve, 30));
+          yield i;
+        }
+      }
+      const result = LazyAsyncIterator.from(source())
+        .bufferTime({ maxWaitMs: 50 })
+        .collect();
+      await vi.runAllTimersAsync();
+      expect((await result).flat()).toEqual([1, 2, 3, 4]);
+    });
+    it('bufferTime stops waiting when the pipeline is aborted', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      let closed = false;
+      async function* source() {
+        try {
+          yield 1;
+          await new Promise(resolve => setTimeout(resolve, 10_000));
+          yield 2;
+        } finally { closed = true; }
+      }
+      const next = LazyAsyncIterator.from(source(), { signal: controller.signal })
+        .bufferTime({ maxSize: 5, maxWaitMs: 1000 })
+        .next();
+      const assertion = expect(next).rejects.toBeInstanceOf(AbortError);
+      await vi.advanceTimersByTimeAsync(10);
+      controller.abort();
+      await assertion;
+      await vi.runAllTimersAsync();
+      expect(closed).toBe(true);
+    });
+    it('bufferTime rejects invalid options', () => {
+      const iter = LazyAsyncIterator.from([1]);
+      expect(() => iter.bufferTime({ maxSize: 0, maxWaitMs: 10 })).toThrow('maxSize');
+      expect(() => iter.bufferTime({ maxSize: 2, maxWaitMs: 0 })).toThrow('maxWaitMs');
+    });
+  });
+
+  describe('combinators', () => {
+    async function* delayed<T>(values: T[], ms: number) {
+      for (const value of values) {
+        await new Promise(resolve => setTimeout(resolve, ms));
+        yield value;
+      }
+    }
+
+    it('zips a mix of sync and async inputs', async () => {
+      const zipped = await LazyAsyncIterator.zip([1, 2, 3], delayed(['a', 'b'], 1), LazyAsyncIterator.from([true, false]).map(b => !b))
+        .collect();
+      expect(zipped).toEqual([[1, 'a', false], [2, 'b', true]]);
+    });
+    it('pulls zip inputs at the same time', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      async function* counted(values: number[]) {
+        for (const value of values) {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight--;
+          yield value;
+        }
+      }
+      expect(await LazyAsyncIterator.zip(counted([1, 2]), counted([3, 4])).collect()).toEqual([[1, 3], [2, 4]]);
+      expect(maxInFlight).toBe(2);
+    });
+    it('zipLongest fills in for finished inputs', async () => {
+      expect(await LazyAsyncIterator.zipLongest('-', delayed(['a'], 1), ['x', 'y']).collect()).toEqual([['a', 'x'], ['-', 'y']]);
+    });
+    it('concat, interleave and roundRobin async inputs', async () => {
+      expect(await LazyAsyncIterator.concat(delayed([1, 2], 1), [3]).collect()).toEqual([1, 2, 3]);
+      expect(await LazyAsyncIterator.interleave(delayed([1, 2, 3], 1), ['a', 'b']).collect()).toEqual([1, 'a', 2, 'b', 3]);
+      expect(await LazyAsyncIterator.roundRobin([1, 2, 3], delayed(['a'], 1)).collect()).toEqual([1, 'a', 2, 3]);
+    });
+    it('closes every open input when the combined pipeline is closed early', async () => {
+      const closed: string[] = [];
+      async function* tracked(name: string) {
+        try { for (let i = 0; ; i++) yield i; } finally { closed.push(name); }
+      }
+      expect(await LazyAsyncIterator.roundRobin(tracked('a'), tracked('b'), [7]).take(4).collect()).toEqual([0, 0, 7, 1]);
+      expect(closed.sort()).toEqual(['a', 'b']);
+
+      closed.length = 0;
+      const iter = LazyAsyncIterator.zip(tracked('c'), tracked('d'));
+      await iter.next();
+      await iter.return();
+      expect(closed.sort()).toEqual(['c', 'd']);
+    });
+    it('rejects inputs that are not iterable', () => {
+      expect(() => LazyAsyncIterator.zip([1], {} as any)).toThrow();
+    });
+
+    it('merge yields values in completion order', async () => {
+      const merged = await LazyAsyncIterator.merge(delayed(['slow'], 40), delayed(['fast1', 'fast2'], 1)).collect();
+      expect(merged).toEqual(['fast1', 'fast2', 'slow']);
+    });
+    it('merge tags values with the position of their input', async () => {
+      const merged = await LazyAsyncIterator.merge(delayed(['a'], 40), [1, 2], { tagged: true }).collect();
+      expect(merged).toEqual([{ source: 1, value: 1 }, { source: 1, value: 2 }, { source: 0, value: 'a' }]);
+    });
+    it('merge pulls from at most concurrency inputs at a time', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      async function* counted(values: number[]) {
+        for (const value of values) {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 2));
+          inFlight--;
+          yield value;
+        }
+      }
+      const merged = await LazyAsyncIterator.merge(counted([1, 2]), counted([3]), counted([4, 5]), { concurrency: 2 }).collect();
+      expect(merged.sort()).toEqual([1, 2, 3, 4, 5]);
+      expect(maxInFlight).toBe(2);
+    });
+    it('merge fails fast and closes the other inputs', async () => {
+      const closed: string[] = [];
+      async function* tracked(name: string) {
+        try { for (let i = 0; ; i++) { await new Promise(resolve => setTimeout(resolve, 1)); yield i; } } finally { closed.push(name); }
+      }
+      async function* failing() {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        throw new Error('feed down');
+      }
+      await expect(LazyAsyncIterator.merge(tracked('a'), failing()).collect()).rejects.toThrow('feed down');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(closed).toEqual(['a']);
+    });
+    it('merge continues past failed inputs when errors is continue', async () => {
+      async function* failing() {
+        yield 'x';
+        throw new Error('feed down');
+      }
+      const failures: [unknown, number][] = [];
+      const merged = await LazyAsyncIterator.merge(failing(), delayed([1, 2], 5), {
+        errors: 'continue',
+        onError: (error, source) => failures.push([error, source])
+      }).collect();
+      expect(merged).toEqual(['x', 1, 2]);
+      expect(failures).toEqual([[new Error('feed down'), 0]]);
+
+      const iter = LazyAsyncIterator.merge(failing(), delayed([1], 5), { errors: 'continue' });
+      expect(await iter.next()).toEqual({ done: false, value: 'x' });
+      expect(await iter.next()).toEqual({ done: false, value: 1 });
+      await expect(iter.next()).rejects.toBeInstanceOf(AggregateError);
+    });
+    it('merge closes every input, opened or not, when closed early', async () => {
+      const closed: string[] = [];
+      async function* tracked(name: string) {
+        try { for (let i = 0; ; i++) yield i; } finally { closed.push(name); }
+      }
+      const waiting = tracked('c');
+      const iter = LazyAsyncIterator.merge(tracked('a'), tracked('b'), waiting, { concurrency: 2 });
+      expect((await iter.take(3).collect()).length).toBe(3);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      expect(closed.sort()).toEqual(['a', 'b']);
+      expect(await waiting.next()).toEqual({ done: true, value: undefined });
+    });
+    it('merge validates its options', () => {
+      expect(() => LazyAsyncIterator.merge([1], { concurrency: 0 })).toThrow('concurrency');
+      expect(() => LazyAsyncIterator.merge([1], { errors: 'ignore' as any })).toThrow('errors');
+      expect(() => LazyAsyncIterator.merge([1], 5 as any)).toThrow();
+    });
+
+    it('mergeSorted merges sorted async inputs', async () => {
+      const merged = await LazyAsyncIterator.mergeSorted((a, b) => a - b, delayed([1, 4, 7], 1), [2, 3, 9], delayed([5, 6], 2)).collect();
+      expect(merged).toEqual([1, 2, 3, 4, 5, 6, 7, 9]);
+    });
+    it('mergeSorted rejects with a SortOrderError and closes the inputs when an input is out of order', async () => {
+      const closed: string[] = [];
+      async function* tracked(name: string, values: number[]) {
+        try { yield* values; } finally { closed.push(name); }
+      }
+      await expect(LazyAsyncIterator.mergeSorted((a, b) => a - b, tracked('a', [1, 5]), tracked('b', [2, 0])).collect())
+        .rejects.toMatchObject({ name: 'SortOrderError', input: 1, previous: 2, value: 0 });
+      expect(closed.sort()).toEqual(['a', 'b']);
+    });
+    it('joins sorted async inputs', async () => {
+      const users = delayed([{ id: 1, name: 'ann' }, { id: 2, name: 'bob' }], 1);
+      const orders = [{ userId: 1, total: 10 }, { userId: 1, total: 20 }, { userId: 3, total: 7 }];
+      const joined = await LazyAsyncIterator.from(users)
+        .fullOuterJoin(orders, { key: u => u.id, otherKey: o => o.userId })
+        .map(([u, o]) => `${u?.name ?? '-'}:${o?.total ?? '-'}`)
+        .collect();
+      expect(joined).toEqual(['ann:10', 'ann:20', 'bob:-', '-:7']);
+
+      const inner = await LazyAsyncIterator.from([1, 2, 3]).innerJoin(delayed([2, 3, 3], 1), { key: x => x }).collect();
+      expect(inner).toEqual([[2, 2], [3, 3], [3, 3]]);
+      await expect(LazyAsyncIterator.from([2, 1]).leftJoin([1], { key: x => x }).collect())
+        .rejects.toMatchObject({ name: 'SortOrderError', input: 0 });
+    });
+    it('diffBy diffs sorted and unsorted async datasets', async () => {
+      const show = (d: { type: string, key: number }) => `${d.type}:${d.key}`;
+      const sorted = await LazyAsyncIterator.from(delayed([1, 2, 3], 1))
+        .diffBy(delayed([2, 3, 4], 1), x => x)
+        .map(show)
+        .collect();
+      expect(sorted).toEqual(['removed:1', 'unchanged:2', 'unchanged:3', 'added:4']);
+
+      const unsorted = await LazyAsyncIterator.from(delayed([5, 1, 3], 1))
+        .diffBy([3, 9], x => x, { sorted: false })
+        .map(show)
+        .collect();
+      expect(unsorted).toEqual(['removed:5', 'removed:1', 'unchanged:3', 'added:9']);
+    });
+  });
+
+  describe('deduplication', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('distinct, distinctBy and distinctUntilChanged drop repeats', async () => {
+      async function* events() { yield* [{ id: 'a', state: 'up' }, { id: 'b', state: 'up' }, { id: 'a', state: 'down' }, { id: 'c', state: 'down' }]; }
+      expect(await LazyAsyncIterator.from(events()).distinctBy(e => e.id).map(e => e.id).collect()).toEqual(['a', 'b', 'c']);
+      expect(await LazyAsyncIterator.from(events()).map(e => e.state).distinctUntilChanged().collect()).toEqual(['up', 'down']);
+      expect(await LazyAsyncIterator.from([1, 2, 1, 3, 2]).distinct({ maxKeys: 2 }).collect()).toEqual([1, 2, 3, 2]);
+    });
+    it('distinct forgets keys once their ttl passes without them', async () => {
+      vi.useFakeTimers();
+      const start = Date.now();
+      async function* events() {
+        for (const [value, at] of [['a', 0], ['a', 500], ['b', 600], ['a', 1400], ['a', 2500], ['b', 2600]] as const) {
+          vi.setSystemTime(start + at);
+          yield value;
+        }
+      }
+      expect(await LazyAsyncIterator.from(events()).distinct({ ttl: 1000 }).collect()).toEqual(['a', 'b', 'a', 'b']);
+      expect(() => LazyAsyncIterator.from([1]).distinct({ ttl: 0 })).toThrow('ttl');
+    });
+    it('keeps the keys of each derived pipeline apart', async () => {
+      const base = LazyAsyncIterator.from([1, 1, 2]).distinct();
+      expect(await base.map(x => x + 1).collect()).toEqual([2, 3]);
+      expect(await base.collect()).toEqual([1, 2]);
+    });
+  });
+
+  describe('sorting', () => {
+    it('topK keeps the k largest values as they arrive', async () => {
+      async function* latencies() { yield* [120, 30, 450, 80, 450, 300]; }
+      expect(await LazyAsyncIterator.from(latencies()).topK(3)).toEqual([450, 450, 300]);
+      expect(await LazyAsyncIterator.from(latencies()).topK(2, (a, b) => b - a, 2)).toEqual([30, 80]);
+    });
+    it('sortBy spills and merges async input lazily', async () => {
+      let pulled = 0;
+      async function* source() {
+        for (let i = 0; i < 20; i++) { pulled++; yield (i * 7) % 20; }
+      }
+      const sorted = LazyAsyncIterator.from(source()).sortBy((a, b) => a - b, { maxInMemory: 6 });
+      expect(pulled).toBe(0);
+      expect(await sorted.collect()).toEqual(Array.from({ length: 20 }, (_, i) => i));
+      expect(pulled).toBe(20);
+    });
+    it('topK and sortBy close the source and remove their run files when they fail partway', async () => {
+      let closed = 0;
+      async function* source(failAt = Infinity) {
+        try {
+          for (let i = 0; i < 20; i++) {
+            if (i === failAt) throw new Error('source failed');
+            yield (i * 7) % 20;
+          }
+        } finally { closed++; }
+      }
+      const failingCompare = (a: number, b: number) => { if (a === 13 || b === 13) throw new Error('bad compare'); return a - b; };
+      await expect(LazyAsyncIterator.from(source()).topK(3, failingCompare)).rejects.toThrow('bad compare');
+      expect(closed).toBe(1);
+
+      const dir = mkdtempSync(join(tmpdir(), 'iterflow-test-'));
+      try {
+        await expect(LazyAsyncIterator.from(source(15)).sortBy((a, b) => a - b, { maxInMemory: 4, tempDir: dir }).collect())
+          .rejects.toThrow('source failed');
+        expect(readdirSync(dir)).toEqual([]);
+        await expect(LazyAsyncIterator.from(source()).sortBy(failingCompare, { maxInMemory: 4, tempDir: dir }).collect())
+          .rejects.toThrow('bad compare');
+        expect(readdirSync(dir)).toEqual([]);
+        expect(closed).toBe(3);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('queries', () => {
+    it('find, findIndex, some and every accept async predicates', async () => {
+      const values = () => LazyAsyncIterator.from([2, 4, undefined, 7]);
+      expect(await values().find(async x => x !== undefined && x > 3)).toBe(4);
+      expect(await values().findIndex(async x => x === undefined)).toBe(2);
+      expect(await values().findIndex(x => x === 9)).toBe(-1);
+      expect(await values().some(async x => x === 7)).toBe(true);
+      expect(await values().every(async x => x !== 5)).toBe(true);
+      expect(await values().every(x => x !== 7, 2)).toBe(false);
+    });
+    it('first, last, includes, count and isEmpty', async () => {
+      async function* gen() { yield* ['a', 'b', 'c']; }
+      expect(await LazyAsyncIterator.from(gen()).first()).toBe('a');
+      expect(await LazyAsyncIterator.from(gen()).last()).toBe('c');
+      expect(await LazyAsyncIterator.from(gen()).includes('b')).toBe(true);
+      expect(await LazyAsyncIterator.from(gen()).count()).toBe(3);
+      expect(await LazyAsyncIterator.from(gen()).count(async x => x !== 'b')).toBe(2);
+      expect(await LazyAsyncIterator.from(gen()).isEmpty()).toBe(false);
+      expect(await LazyAsyncIterator.from([]).isEmpty()).toBe(true);
+      expect(await LazyAsyncIterator.from([]).first()).toBeUndefined();
+    });
+    it('stops pulling and closes the source once the answer is known', async () => {
+      let pulled = 0;
+      let closed = false;
+      async function* naturals() {
+        try { for (let i = 0; ; i++) { pulled++; yield i; } } finally { closed = true; }
+      }
+      expect(await LazyAsyncIterator.from(naturals()).some(async x => x === 3)).toBe(true);
+      expect(pulled).toBe(4);
+      expect(closed).toBe(true);
+    });
+    it('closes the source when a predicate throws', async () => {
+      let closed = false;
+      async function* naturals() {
+        try { for (let i = 0; ; i++) yield i; } finally { closed = true; }
+      }
+      await expect(LazyAsyncIterator.from(naturals()).find(x => { if (x === 2) throw new Error('bad'); return false; }))
+        .rejects.toThrow('bad');
+      expect(closed).toBe(true);
+    });
+  });
+
+  describe('aggregation', () => {
+    it('sum, average and stats', async () => {
+      async function* gen() { yield* [1e16, 1, -1e16, 0.5, 0.5]; }
+      expect(await LazyAsyncIterator.from(gen()).sum()).toBe(2);
+      expect(await LazyAsyncIterator.from([1n, 2n]).sum()).toBe(3n);
+      expect(await LazyAsyncIterator.from([{ n: 1 }, { n: 2 }]).sum(x => x.n, 2)).toBe(3);
+      expect(await LazyAsyncIterator.from([2, 4, 9]).average()).toBe(5);
+      const stats = await LazyAsyncIterator.from([2, 4, 4, 4, 5, 5, 7, 9]).stats();
+      expect(stats).toEqual({ count: 8, sum: 40, mean: 5, variance: 4, stddev: 2, min: 2, max: 9 });
+      await expect(LazyAsyncIterator.from<number | bigint>([1n, 2]).sum()).rejects.toThrow('sum(): cannot mix numbers and bigints');
+    });
+    it('min, max, minBy and maxBy', async () => {
+      const items = [{ id: 'a', size: 2 }, { id: 'b', size: 5 }, { id: 'c', size: 5 }, { id: 'd', size: 1 }];
+      expect((await LazyAsyncIterator.from(items).maxBy(x => x.size))?.id).toBe('b');
+      expect((await LazyAsyncIterator.from(items).minBy(x => x.size))?.id).toBe('d');
+      expect(await LazyAsyncIterator.from([3, 1, 2]).min()).toBe(1);
+      expect(await LazyAsyncIterator.from([]).max()).toBeUndefined();
+    });
+    it('close the source when a value has the wrong type or a key function throws', async () => {
+      let closed = 0;
+      async function* source() {
+        try { yield* [1, 2, 'three', 4]; } finally { closed++; }
+      }
+      await expect(LazyAsyncIterator.from(source()).sum()).rejects.toThrow('sum(): values must be numbers or bigints');
+      await expect(LazyAsyncIterator.from(source()).stats()).rejects.toThrow(TypeError);
+      await expect(LazyAsyncIterator.from(source()).maxBy(x => { if (typeof x !== 'number') throw new Error('bad key'); return x; }))
+        .rejects.toThrow('bad key');
+      const checked = LazyAsyncIterator.from(source()).map(x => { if (typeof x !== 'number') throw new TypeError('not a number'); return x; });
+      await expect(checked.reduce((acc, x) => acc + x, 0).execute()).rejects.toThrow('not a number');
+      await expect(LazyAsyncIterator.from(source()).reduceAsync(async (acc, x) => acc + (x as number).toFixed(), '').execute())
+        .rejects.toThrow(TypeError);
+      expect(closed).toBe(5);
+    });
+    it('approxDistinct, approxQuantiles and heavyHitters resolve with mergeable sketches', async () => {
+      async function* shard(offset: number) { for (let i = 0; i < 500; i++) yield offset + i; }
+      const [a, b] = await Promise.all([0, 250].map(offset => LazyAsyncIterator.from(shard(offset)).approxDistinct({ precision: 12 })));
+      expect(Math.abs(a.merge(HyperLogLog.fromJSON(JSON.parse(JSON.stringify(b)))).count() - 750)).toBeLessThan(15);
+      const digest = await LazyAsyncIterator.from(shard(0)).approxQuantiles({}, 4);
+      expect([digest.quantile(0), digest.quantile(1)]).toEqual([0, 499]);
+      const hitters = await LazyAsyncIterator.from(['a', 'b', 'a', 'c', 'a']).heavyHitters({ capacity: 2 });
+      expect(hitters.top(1)).toEqual([{ key: 'a', count: 3, error: 0 }]);
+    });
+    it('approxQuantiles closes the source on a non-finite value', async () => {
+      let closed = false;
+      async function* source() {
+        try { yield* [1, NaN, 3]; } finally { closed = true; }
+      }
+      await expect(LazyAsyncIterator.from(source()).approxQuantiles()).rejects.toThrow(TypeError);
+      expect(closed).toBe(true);
+    });
+  });
+
+  describe('grouping', () => {
+    it('groupAdjacent emits runs of equal keys and the final run', async () => {
+      async function* statuses() { yield* ['up', 'up', 'down', 'up', 'up']; }
+      const runs = await LazyAsyncIterator.from(statuses())
+        .chunkBy(s => s)
+        .map(run => `${run[0]}x${run.length}`)
+        .collect();
+      expect(runs).toEqual(['upx2', 'downx1', 'upx2']);
+    });
+    it('groupAdjacent flushes the current run when a take ends the stream', async () => {
+      const runs = await LazyAsyncIterator.from([1, 1, 2, 2, 2, 3]).take(4).groupAdjacent(x => x).collect();
+      expect(runs).toEqual([[1, 1], [2, 2]]);
+    });
+    it('folds groupBy, countBy and partition as values arrive', async () => {
+      const pipeline = () => LazyAsyncIterator.from([1, 2, 3, 4, 5, 6]).mapAsync(async x => x * 10);
+      expect(await pipeline().groupBy(x => x % 3)).toEqual(new Map([[1, [10, 40]], [2, [20, 50]], [0, [30, 60]]]));
+      expect(await pipeline().countBy(x => x > 25, 3)).toEqual(new Map([[false, 2], [true, 4]]));
+      expect(await pipeline().partition(x => x < 35)).toEqual([[10, 20, 30], [40, 50, 60]]);
+    });
+    it('collects entries into a Map, Set or object', async () => {
+      const entries = () => LazyAsyncIterator.from(['x', 'y', 'x']).map((k, i) => [k, i] as [string, number]);
+      expect(await entries().toMap()).toEqual(new Map([['x', 2], ['y', 1]]));
+      expect(await entries().toObject()).toEqual({ x: 2, y: 1 });
+      expect(await LazyAsyncIterator.from(['x', 'y', 'x']).toSet()).toEqual(new Set(['x', 'y']));
+      await expect(LazyAsyncIterator.from([null]).toObject()).rejects.toThrow(TypeError);
+    });
+    it('collectors close the source when a callback or the pipeline throws', async () => {
+      let closed = 0;
+      async function* source() {
+        try { yield* [1, 2, 3]; } finally { closed++; }
+      }
+      await expect(LazyAsyncIterator.from(source()).groupBy(x => { if (x === 2) throw new Error('bad key'); return x; }))
+        .rejects.toThrow('bad key');
+      await expect(LazyAsyncIterator.from(source()).toMap()).rejects.toThrow(TypeError);
+      await expect(LazyAsyncIterator.from(source()).mapAsync(async () => { throw new Error('bad call'); }).collect())
+        .rejects.toThrow('bad call');
+      expect(closed).toBe(3);
+    });
+    it('collectors stop when their signal aborts', async () => {
+      const controller = new AbortController();
+      async function* slow() {
+        yield 1;
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        yield 2;
+      }
+      const grouped = LazyAsyncIterator.from(slow()).groupBy(x => x, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 5);
+      await expect(grouped).rejects.toBeInstanceOf(AbortError);
+    });
+  });
+
+  describe('event-time windows', () => {
+    type Click = { user: string, t: number };
+    const clicks = (...events: [string, number][]) => events.map(([user, t]): Click => ({ user, t }));
+    const summary = (w: { key: unknown, start: number, end: number, values: Click[] }) =>
+      `${w.key}:${w.start}-${w.end}:${w.values.map(v => v.t).join(',')}`;
+
+    it('emits tumbling windows per key as the watermark passes their end', async () => {
+      const emitted: string[] = [];
+      const seen: number[] = [];
+      const windows = await LazyAsyncIterator.from(clicks(['a', 1], ['b', 4], ['a', 9], ['a', 12], ['b', 25]))
+        .forEach(c => seen.push(c.t))
+        .tumblingWindow({ size: 10, timestamp: c => c.t, key: c => c.user })
+        .forEach(w => emitted.push(`${summary(w)} after ${seen.at(-1)}`))
+        .collect();
+      expect(windows.map(summary)).toEqual(['a:0-10:1,9', 'b:0-10:4', 'a:10-20:12', 'b:20-30:25']);
+      expect(emitted).toEqual(['a:0-10:1,9 after 12', 'b:0-10:4 after 12', 'a:10-20:12 after 25', 'b:20-30:25 after 25']);
+    });
+    it('accepts out-of-order values within the allowed lateness and drops later ones', async () => {
+      const windows = await LazyAsyncIterator.from(clicks(['a', 5], ['a', 12], ['a', 8], ['a', 19], ['a', 3], ['a', 15]))
+        .tumblingWindow({ size: 10, timestamp: c => c.t, allowedLateness: 5 })
+        .collect();
+      // 8 arrives late but the watermark (12 - 5) has not passed 10 yet; 3 arrives after [0, 10) was emitted
+      expect(windows.map(summary)).toEqual(['undefined:0-10:5,8', 'undefined:10-20:12,19,15']);
+    });
+    it('emits overlapping sliding windows', async () => {
+      const windows = await LazyAsyncIterator.from(clicks(['a', 1], ['a', 6], ['a', 11]))
+        .slidingWindow({ size: 10, slide: 5, timestamp: c => c.t })
+        .collect();
+      expect(windows.map(summary)).toEqual([
+        'undefined:-5-5:1', 'undefined:0-10:1,6', 'undefined:5-15:6,11', 'undefined:10-20:11'
+      ]);
+    });
+    it('closes sessions after a gap and merges sessions bridged by a late value', async () => {
+      const windows = await LazyAsyncIterator.from(clicks(['a', 0], ['b', 1], ['a', 3], ['a', 10], ['b', 20], ['a', 7], ['a', 30]))
+        .sessionWindow({ gap: 5, timestamp: c => c.t, key: c => c.user, allowedLateness: 15 })
+        .collect();
+      expect(windows.map(summary)).toEqual(['b:1-6:1', 'a:0-15:0,3,7,10', 'b:20-25:20', 'a:30-35:30']);
+    });
+    it('closes windows of many keys in end order as the watermark passes them', async () => {
+      const events = Array.from({ length: 300 }, (_, i) => ({ user: `u${i % 100}`, t: i }));
+      const windows = await LazyAsyncIterator.from(events)
+        .sessionWindow({ gap: 120, timestamp: c => c.t, key: c => c.user })
+        .collect();
+      expect(windows).toHaveLength(100);
+      expect(windows.map(w => w.end)).toEqual(events.slice(200).map(e => e.t + 120));
+      expect(windows[0]).toMatchObject({ key: 'u0', start: 0, end: 320 });
+      expect(windows[0].values.map(v => v.t)).toEqual([0, 100, 200]);
+    });
+    it('keeps emitting windows downstream of a take after the stream ends', async () => {
+      const windows = await LazyAsyncIterator.from(clicks(['a', 1], ['a', 11], ['a', 21], ['a', 31]))
+        .take(2)
+        .tumblingWindow({ size: 10, timestamp: c => c.t })
+        .take(5)
+        .collect();
+      expect(windows.map(w => w.start)).toEqual([0, 10]);
+    });
+    it('rejects invalid options and timestamps', async () => {
+      const iter = LazyAsyncIterator.from(clicks(['a', 1]));
+      expect(() => iter.tumblingWindow({ size: 0, timestamp: c => c.t })).toThrow('size');
+      expect(() => iter.slidingWindow({ size: 10, slide: -1, timestamp: c => c.t })).toThrow('slide');
+      expect(() => iter.sessionWindow({ gap: 5, timestamp: c => c.t, allowedLateness: -1 })).toThrow('allowedLateness');
+      expect(() => iter.sessionWindow({ gap: 5, timestamp: undefined as any })).toThrow(TypeError);
+      await expect(iter.tumblingWindow({ size: 10, timestamp: () => NaN }).collect()).rejects.toThrow(TypeError);
     });
   });
 
@@ -114,6 +1178,13 @@ describe('LazyAsyncIterator', () => {
       expect(await a.collect()).toEqual([1, 2, 3, 4]);
       expect(await b.collect()).toEqual([1, 2, 3, 4]);
     });
+    it('keeps inspect() on the branches', async () => {
+      const [fast, slow] = LazyAsyncIterator.from([1, 2, 3]).tee(2, { maxBuffer: 2 });
+      await fast.next();
+      expect(fast.inspect()).toEqual({ bufferDepth: 1, maxBuffer: 2, policy: 'block', branches: [{ lag: 0, state: 'open' }, { lag: 1, state: 'open' }] });
+      await slow.next();
+      expect(slow.inspect().bufferDepth).toBe(0);
+    });
   });
 
   describe('error handling', () => {
@@ -149,6 +1220,39 @@ describe('LazyAsyncIterator', () => {
       await iter.return(undefined);
       expect(iter.exhausted).toBe(true);
     });
+    it('return closes the source iterator', async () => {
+      let closed = false;
+      async function* source() {
+        try { yield 1; yield 2; yield 3; } finally { closed = true; }
+      }
+      const iter = LazyAsyncIterator.from(source()).mapAsync(async x => x);
+      for await (const x of iter) {
+        if (x === 1) break;
+      }
+      expect(closed).toBe(true);
+    });
+    it('take closes the source and open flatMap inner iterators', async () => {
+      const closed: string[] = [];
+      async function* inner(x: number) {
+        try { yield x; yield x; } finally { closed.push(`inner ${x}`); }
+      }
+      async function* source() {
+        try { yield 1; yield 2; } finally { closed.push('source'); }
+      }
+      const iter = LazyAsyncIterator.from(source()).flatMap(inner).take(3);
+      expect(await iter.collect()).toEqual([1, 1, 2]);
+      expect(closed).toEqual(['inner 1', 'inner 2', 'source']);
+    });
+    it('asyncDispose closes the source', async () => {
+      let closed = false;
+      async function* source() {
+        try { yield 1; yield 2; } finally { closed = true; }
+      }
+      const iter = LazyAsyncIterator.from(source());
+      await iter.next();
+      await iter[Symbol.asyncDispose]();
+      expect(closed).toBe(true);
+    });
     it('works with non-primitive values', async () => {
       const objs = [{ a: 1 }, { a: 2 }];
       const iter = LazyAsyncIterator.from(objs).map(o => ({ ...o, b: 2 }));
@@ -1,5 +1,8 @@
 import { LazyIterator } from "../src/lazy-iterator";
 import { describe, it, expect } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 describe('LazyIterator', () => {
   function* genNumbers() {
@@ -54,6 +57,28 @@ describe('LazyIterator', () => {
     expect(result).toBe(6);
   });
 
+  it('should fold reduce() one element at a time', () => {
+    const events: string[] = [];
+    function* source() {
+      for (let i = 1; i <= 3; i++) { events.push(`pull ${i}`); yield i; }
+    }
+    const result = LazyIterator.from(source())
+      .reduce((acc, curr, idx) => { events.push(`fold ${curr}@${idx}`); return acc + curr; }, 0)
+      .execute();
+    expect(result).toBe(6);
+    expect(events).toEqual(['pull 1', 'fold 1@0', 'pull 2', 'fold 2@1', 'pull 3', 'fold 3@2']);
+  });
+
+  it('should support scan()', () => {
+    const it = LazyIterator.from([1, 2, 3, 4]).scan((acc, curr) => acc + curr, 10);
+    expect(it.collect()).toEqual([11, 13, 16, 20]);
+    const running = LazyIterator.from([3, 1, 4, 1, 5])
+      .scan((max, curr) => Math.max(max, curr), -Infinity)
+      .map(max => `max=${max}`)
+      .take(3);
+    expect(running.collect()).toEqual(['max=3', 'max=3', 'max=4']);
+  });
+
   it('should support toArray() and collect()', () => {
     const it = LazyIterator.from([1, 2, 3]).map(x => x + 1);
     expect(it.toArray()).toEqual([2, 3, 4]);
@@ -62,28 +87,575 @@ describe('LazyIterator', () => {
 
   it('should support take()', () => {
     const it = LazyIterator.from([1, 2, 3, 4, 5]);
-    expect(it.take(3)).toEqual([1, 2, 3]);
-    expect(it.take(0)).toEqual([]);
+    expect(it.take(3).collect()).toEqual([1, 2, 3]);
+    expect(it.take(0).collect()).toEqual([]);
     expect(() => it.take(-1)).toThrow();
   });
 
   it('should support drop()', () => {
     const [it1, it2] = LazyIterator.from([1, 2, 3, 4, 5]).tee(2);
-    expect(it1.drop(2)).toEqual([3, 4, 5]);
-    expect(it2.drop(0)).toEqual([1, 2, 3, 4, 5]);
+    expect(it1.drop(2).collect()).toEqual([3, 4, 5]);
+    expect(it2.drop(0).collect()).toEqual([1, 2, 3, 4, 5]);
     expect(() => it2.drop(-1)).toThrow();
   });
 
   it('should support takeWhile()', () => {
     const it = LazyIterator.from([1, 2, 3, 4, 5]);
-    expect(it.takeWhile((x) => x < 4)).toEqual([1, 2, 3]);
-    expect(it.takeWhile((x) => false)).toEqual([]);
+    expect(it.takeWhile((x) => x < 4).collect()).toEqual([1, 2, 3]);
+    expect(it.takeWhile((x) => false).collect()).toEqual([]);
   });
 
   it('should support dropWhile()', () => {
     const it = LazyIterator.from([1, 2, 3, 4, 5]);
-    expect(it.dropWhile((x) => x < 3)).toEqual([3, 4, 5]);
-    expect(it.dropWhile((x) => true)).toEqual([]);
+    expect(it.dropWhile((x) => x < 3).collect()).toEqual([3, 4, 5]);
+    expect(it.dropWhile((x) => true).collect()).toEqual([]);
+  });
+
+  it('should chain take() and drop() lazily over an infinite source', () => {
+    let pulled = 0;
+    function* naturals() {
+      for (let i = 0; ; i++) { pulled++; yield i; }
+    }
+    const it = LazyIterator.from(naturals()).drop(100).take(5).map(x => x * 2);
+    expect(it.collect()).toEqual([200, 202, 204, 206, 208]);
+    expect(pulled).toBe(105);
+  });
+
+  it('should not pull from the source for take(0)', () => {
+    let pulled = 0;
+    const it = LazyIterator.from([1, 2, 3]).forEach(() => pulled++).take(0);
+    expect(it.collect()).toEqual([]);
+    expect(pulled).toBe(0);
+  });
+
+  it('should stop pulling once takeWhile() fails', () => {
+    const seen: number[] = [];
+    const it = LazyIterator.from(genNumbers()).forEach(x => seen.push(x)).takeWhile(x => x < 3);
+    expect(it.collect()).toEqual([1, 2]);
+    expect(seen).toEqual([1, 2, 3]);
+  });
+
+  it('should apply take() after filter()', () => {
+    const it = LazyIterator.from(genNumbers()).filter(x => x % 2 === 1).take(2).map(x => x * 10);
+    expect(it.collect()).toEqual([10, 30]);
+  });
+
+  it('should support flatMap()', () => {
+    const it = LazyIterator.from([1, 2, 3]).flatMap(x => Array(x).fill(x));
+    expect(it.collect()).toEqual([1, 2, 2, 3, 3, 3]);
+  });
+
+  it('should pull inner items of flatMap() lazily', () => {
+    function* repeat(x: number) {
+      while (true) yield x;
+    }
+    const it = LazyIterator.from(genNumbers()).flatMap(x => repeat(x)).take(3);
+    expect(it.collect()).toEqual([1, 1, 1]);
+  });
+
+  it('should drain the inner iterator of the last element taken before flatMap()', () => {
+    const it = LazyIterator.from(genNumbers()).take(2).flatMap(x => [x, x * 10]).map(x => x + 1);
+    expect(it.collect()).toEqual([2, 11, 3, 21]);
+  });
+
+  it('should support nested flatMap() and filtering of inner items', () => {
+    const it = LazyIterator.from([[1, 2], [3]])
+      .flatMap(row => row)
+      .flatMap(x => new Set([x, -x]))
+      .filter(x => x > 0 || x === -3);
+    expect(it.collect()).toEqual([1, 2, 3, -3]);
+  });
+
+  it('should throw when flatMap() callback returns a non-iterable', () => {
+    const it = LazyIterator.from([1]).flatMap(x => x as any);
+    expect(() => it.collect()).toThrow(TypeError);
+  });
+
+  it('should support flatten() with depth', () => {
+    expect(LazyIterator.from([[1, [2]], 3, [[4]]]).flatten().collect()).toEqual([1, [2], 3, [4]]);
+    expect(LazyIterator.from([[1, [2]], 3, [[4]]]).flatten(2).collect()).toEqual([1, 2, 3, 4]);
+    expect(LazyIterator.from([[1], [2]]).flatten(0).collect()).toEqual([[1], [2]]);
+    expect(LazyIterator.from(['ab', ['cd']]).flatten(5).collect()).toEqual(['ab', 'cd']);
+    expect(() => LazyIterator.from([1]).flatten(-1)).toThrow();
+  });
+
+  it('should support chunk() and emit the final partial batch', () => {
+    expect(LazyIterator.from([1, 2, 3, 4, 5]).chunk(2).collect()).toEqual([[1, 2], [3, 4], [5]]);
+    expect(LazyIterator.from([1, 2, 3, 4]).chunk(2).collect()).toEqual([[1, 2], [3, 4]]);
+    expect(LazyIterator.from([]).chunk(3).collect()).toEqual([]);
+    expect(LazyIterator.from([1, 2, 3]).chunk(2).map((batch, i) => i).collect()).toEqual([0, 2]);
+    expect(() => LazyIterator.from([1]).chunk(0)).toThrow();
+    expect(() => LazyIterator.from([1]).chunk(1.5)).toThrow();
+  });
+
+  it('should pull chunk() batches lazily', () => {
+    let pulled = 0;
+    function* source() {
+      for (let i = 1; ; i++) { pulled++; yield i; }
+    }
+    const it = LazyIterator.from(source()).chunk(3);
+    expect(it.next().value).toEqual([1, 2, 3]);
+    expect(pulled).toBe(3);
+  });
+
+  it('should flush chunk() batches when an upstream take() or takeWhile() ends the stream', () => {
+    let closed = false;
+    function* source() {
+      try { for (let i = 1; ; i++) yield i; } finally { closed = true; }
+    }
+    expect(LazyIterator.from(source()).take(5).chunk(2).collect()).toEqual([[1, 2], [3, 4], [5]]);
+    expect(closed).toBe(true);
+    expect(LazyIterator.from([1, 2, 3, 9, 4]).takeWhile(x => x < 5).chunk(2).collect()).toEqual([[1, 2], [3]]);
+    expect(LazyIterator.from([1, 2, 3, 4, 5]).chunk(2).take(2).collect()).toEqual([[1, 2], [3, 4]]);
+    expect(LazyIterator.from([1, 2, 3, 4, 5]).chunk(2).flatMap(b => b).chunk(3).collect()).toEqual([[1, 2, 3], [4, 5]]);
+  });
+
+  it('should support sliding, tumbling and hopping window()', () => {
+    expect(LazyIterator.from([1, 2, 3, 4, 5]).window(3).collect()).toEqual([[1, 2, 3], [2, 3, 4], [3, 4, 5]]);
+    expect(LazyIterator.from([1, 2, 3, 4, 5]).window(2, 2).collect()).toEqual([[1, 2], [3, 4]]);
+    expect(LazyIterator.from([1, 2, 3, 4, 5, 6, 7]).window(2, 3).collect()).toEqual([[1, 2], [4, 5]]);
+    expect(LazyIterator.from([1, 2]).window(3).collect()).toEqual([]);
+    expect(LazyIterator.from([1, 2, 3, 4]).window(2).map((w, i) => i).collect()).toEqual([0, 1, 2]);
+    expect(() => LazyIterator.from([1]).window(0)).toThrow();
+    expect(() => LazyIterator.from([1]).window(2, 0)).toThrow();
+  });
+
+  it('should compute a moving average with window() over an infinite source', () => {
+    function* naturals() {
+      for (let i = 1; ; i++) yield i;
+    }
+    const averages = LazyIterator.from(naturals())
+      .window(4)
+      .map(w => w.reduce((a, b) => a + b, 0) / w.length)
+      .take(3)
+      .collect();
+    expect(averages).toEqual([2.5, 3.5, 4.5]);
+  });
+
+  it('should support pairwise()', () => {
+    const deltas = LazyIterator.from([1, 4, 9, 16]).pairwise().map(([prev, curr]) => curr - prev).collect();
+    expect(deltas).toEqual([3, 5, 7]);
+    expect(LazyIterator.from([1]).pairwise().collect()).toEqual([]);
+  });
+
+  it('should support groupAdjacent() and its chunkBy() alias', () => {
+    const runs = LazyIterator.from([1, 1, 2, 3, 3, 3, 1]).groupAdjacent(x => x).collect();
+    expect(runs).toEqual([[1, 1], [2], [3, 3, 3], [1]]);
+    const words = LazyIterator.from(['apple', 'avocado', 'banana', 'blueberry', 'cherry'])
+      .chunkBy(w => w[0])
+      .map((run, i) => `${i}:${run.join('+')}`)
+      .collect();
+    expect(words).toEqual(['0:apple+avocado', '2:banana+blueberry', '4:cherry']);
+    expect(LazyIterator.from([NaN, NaN, 1]).groupAdjacent(x => x).collect()).toEqual([[NaN, NaN], [1]]);
+    expect(LazyIterator.from([]).groupAdjacent(x => x).collect()).toEqual([]);
+  });
+
+  it('should emit groupAdjacent() runs before the run ends only when the key changes', () => {
+    let pulled = 0;
+    function* source() {
+      for (let i = 0; ; i++) { pulled++; yield Math.floor(i / 3); }
+    }
+    const it = LazyIterator.from(source()).groupAdjacent(x => x);
+    expect(it.next().value).toEqual([0, 0, 0]);
+    expect(pulled).toBe(4);
+  });
+
+  it('should drop repeated values with distinct(), distinctBy() and distinctUntilChanged()', () => {
+    expect(LazyIterator.from([3, 1, 3, NaN, 2, 1, NaN]).distinct().collect()).toEqual([3, 1, NaN, 2]);
+    const users = [{ id: 1, v: 'a' }, { id: 2, v: 'b' }, { id: 1, v: 'c' }];
+    expect(LazyIterator.from(users).distinctBy(u => u.id).map(u => u.v).collect()).toEqual(['a', 'b']);
+    expect(LazyIterator.from(['up', 'up', 'down', 'down', 'up']).distinctUntilChanged().collect()).toEqual(['up', 'down', 'up']);
+    const near = LazyIterator.from([1, 1.05, 1.5, 3, 2.95]).distinctUntilChanged((a, b) => Math.abs(a - b) < 0.1).collect();
+    expect(near).toEqual([1, 1.5, 3]);
+  });
+
+  it('should forget the least recently seen keys past distinct() maxKeys', () => {
+    expect(LazyIterator.from([1, 2, 1, 3, 2, 1]).distinct({ maxKeys: 2 }).collect()).toEqual([1, 2, 3, 2, 1]);
+    expect(() => LazyIterator.from([1]).distinct({ maxKeys: 0 })).toThrow('maxKeys');
+  });
+
+  it('should start each distinct() pipeline with no keys seen', () => {
+    const base = LazyIterator.from([1, 2, 2, 3]).distinct();
+    expect(base.map(x => x * 10).collect()).toEqual([10, 20, 30]);
+    expect(base.filter(x => x > 1).collect()).toEqual([2, 3]);
+  });
+
+  it('should return the topK() largest values, largest first', () => {
+    const scores = [{ name: 'a', score: 5 }, { name: 'b', score: 9 }, { name: 'c', score: 1 }, { name: 'd', score: 9 }, { name: 'e', score: 7 }];
+    const top = LazyIterator.from(scores).topK(3, (x, y) => x.score - y.score).map(x => x.name);
+    expect(top).toEqual(['b', 'd', 'e']);
+    expect(LazyIterator.from([3, 1, 2]).topK(5)).toEqual([3, 2, 1]);
+    expect(LazyIterator.from([3, 1, 2]).topK(0)).toEqual([]);
+    expect(() => LazyIterator.from([1]).topK(-1)).toThrow('k must be');
+  });
+
+  it('should sortBy() in memory when the input fits', async () => {
+    const sorted = LazyIterator.from(['pear', 'fig', 'apple']).sortBy((a, b) => a.localeCompare(b));
+    expect(await sorted.collect()).toEqual(['apple', 'fig', 'pear']);
+  });
+
+  it('should sortBy() larger inputs by spilling sorted runs and merging them back', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'iterflow-test-'));
+    try {
+      const values = Array.from({ length: 50 }, (_, i) => ({ id: (i * 37) % 50, seq: i }));
+      const sorted = await LazyIterator.from(values)
+        .sortBy((a, b) => a.id - b.id, { maxInMemory: 8, tempDir: dir })
+        .map(v => v.id)
+        .collect();
+      expect(sorted).toEqual(Array.from({ length: 50 }, (_, i) => i));
+      expect(readdirSync(dir)).toEqual([]);
+
+      const early = LazyIterator.from([5, 3, 1, 4, 2, 2]).sortBy((a, b) => a - b, { maxInMemory: 2, tempDir: dir });
+      expect(await early.take(3).collect()).toEqual([1, 2, 2]);
+      expect(readdirSync(dir)).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep sortBy() stable and reject values it cannot write on one line', async () => {
+    const rows = [{ k: 2, v: 'a' }, { k: 1, v: 'b' }, { k: 2, v: 'c' }, { k: 1, v: 'd' }, { k: 2, v: 'e' }];
+    const sorted = await LazyIterator.from(rows).sortBy((a, b) => a.k - b.k, { maxInMemory: 2 }).map(r => r.v).collect();
+    expect(sorted).toEqual(['b', 'd', 'a', 'c', 'e']);
+    await expect(LazyIterator.from([1, 2, 3]).sortBy((a, b) => a - b, { maxInMemory: 1, serialize: () => 'a\nb' }).collect())
+      .rejects.toThrow('line breaks');
+    expect(() => LazyIterator.from([1]).sortBy((a, b) => a - b, { maxInMemory: 0 })).toThrow('maxInMemory');
+  });
+
+  it('should answer find(), findIndex(), some(), every() and includes() queries', () => {
+    const values = () => LazyIterator.from([1, undefined, 3, NaN, 8]);
+    expect(values().find(x => x !== undefined && x > 2)).toBe(3);
+    expect(values().find(x => x === 100)).toBeUndefined();
+    expect(values().findIndex(x => x === undefined)).toBe(1);
+    expect(values().findIndex(x => x === 100)).toBe(-1);
+    expect(values().some(x => x === 8)).toBe(true);
+    expect(values().every(x => x !== 0)).toBe(true);
+    expect(values().every(x => x === 1)).toBe(false);
+    expect(values().includes(NaN)).toBe(true);
+    expect(values().includes(2)).toBe(false);
+    expect(LazyIterator.from([]).every(() => false)).toBe(true);
+  });
+
+  it('should answer first(), last(), count() and isEmpty() queries', () => {
+    expect(LazyIterator.from([4, 5, 6]).first()).toBe(4);
+    expect(LazyIterator.from([4, 5, 6]).last()).toBe(6);
+    expect(LazyIterator.from([]).first()).toBeUndefined();
+    expect(LazyIterator.from([4, 5, 6]).count()).toBe(3);
+    expect(LazyIterator.from([4, 5, 6]).count(x => x % 2 === 0)).toBe(2);
+    expect(LazyIterator.from([]).isEmpty()).toBe(true);
+    expect(LazyIterator.from([0]).isEmpty()).toBe(false);
+  });
+
+  it('should stop pulling and close the source once a query is answered', () => {
+    let pulled = 0;
+    let closed = false;
+    function* naturals() {
+      try { for (let i = 0; ; i++) { pulled++; yield i; } } finally { closed = true; }
+    }
+    expect(LazyIterator.from(naturals()).map(x => x * 2).find(x => x > 10)).toBe(12);
+    expect(pulled).toBe(7);
+    expect(closed).toBe(true);
+
+    closed = false;
+    expect(LazyIterator.from(naturals()).isEmpty()).toBe(false);
+    expect(closed).toBe(true);
+  });
+
+  it('should sum with compensated summation and sum bigints exactly', () => {
+    const values = [1e16, 1, -1e16, ...Array(10).fill(0.1)];
+    expect(LazyIterator.from(values).sum()).toBe(2);
+    expect(LazyIterator.from([2n ** 64n, 1n, 2n]).sum()).toBe(2n ** 64n + 3n);
+    expect(LazyIterator.from([{ n: 3 }, { n: 4 }]).sum(x => x.n)).toBe(7);
+    expect(LazyIterator.from([]).sum()).toBe(0);
+    expect(LazyIterator.from([1e308, 1e308]).sum()).toBe(Infinity);
+    expect(() => LazyIterator.from<number | bigint>([1, 2n]).sum()).toThrow(TypeError);
+    expect(() => LazyIterator.from(['1']).sum(x => x as any)).toThrow('sum(): values must be numbers or bigints');
+  });
+
+  it('should compute average() and stats() in one stable pass', () => {
+    expect(LazyIterator.from([1, 2, 3, 4]).average()).toBe(2.5);
+    expect(LazyIterator.from([]).average()).toBeNaN();
+    const stats = LazyIterator.from([1e9 + 4, 1e9 + 7, 1e9 + 13, 1e9 + 16]).stats();
+    expect(stats).toEqual({ count: 4, sum: 4e9 + 40, mean: 1e9 + 10, variance: 22.5, stddev: Math.sqrt(22.5), min: 1e9 + 4, max: 1e9 + 16 });
+    expect(LazyIterator.from([{ ms: 2 }, { ms: 4 }]).stats(x => x.ms).mean).toBe(3);
+    const empty = LazyIterator.from([]).stats();
+    expect(empty.count).toBe(0);
+    expect(empty.variance).toBeNaN();
+    expect(() => LazyIterator.from([1n]).stats()).toThrow('stats(): values must be numbers');
+  });
+
+  it('should find min(), max(), minBy() and maxBy(), keeping the first of equal keys', () => {
+    const people = [{ name: 'ann', age: 30 }, { name: 'bob', age: 25 }, { name: 'cy', age: 30 }, { name: 'di', age: 25 }];
+    expect(LazyIterator.from(people).minBy(p => p.age)?.name).toBe('bob');
+    expect(LazyIterator.from(people).maxBy(p => p.age)?.name).toBe('ann');
+    expect(LazyIterator.from([3n, 10n, 2n]).max()).toBe(10n);
+    expect(LazyIterator.from(['pear', 'apple']).min()).toBe('apple');
+    expect(LazyIterator.from([]).maxBy(x => x)).toBeUndefined();
+  });
+
+  it('should collect approximate sketches with approxDistinct(), approxQuantiles() and heavyHitters()', () => {
+    const requests = () => LazyIterator.from(Array.from({ length: 2000 }, (_, i) => ({ user: `u${i % 300}`, ms: i % 100, path: i % 4 === 0 ? '/hot' : `/p${i}` })));
+    expect(Math.abs(requests().map(r => r.user).approxDistinct().count() - 300)).toBeLessThan(6);
+    const latency = requests().map(r => r.ms).approxQuantiles({ compression: 50 });
+    expect(latency.quantile(1)).toBe(99);
+    expect(Math.abs(latency.quantile(0.5) - 49.5)).toBeLessThan(2);
+    expect(requests().map(r => r.path).heavyHitters({ capacity: 10 }).top(1)[0].key).toBe('/hot');
+    expect(() => LazyIterator.from([1]).approxDistinct({ precision: 30 })).toThrow('precision must be an integer from 4 to 18');
+  });
+
+  it('should support groupBy(), countBy() and partition()', () => {
+    const people = [{ name: 'ann', team: 'a' }, { name: 'bob', team: 'b' }, { name: 'cy', team: 'a' }];
+    const byTeam = LazyIterator.from(people).groupBy(p => p.team);
+    expect([...byTeam.keys()]).toEqual(['a', 'b']);
+    expect(byTeam.get('a')!.map(p => p.name)).toEqual(['ann', 'cy']);
+    expect(LazyIterator.from(['x', 'y', 'x', 'x']).countBy(x => x)).toEqual(new Map([['x', 3], ['y', 1]]));
+    const [even, odd] = LazyIterator.from([1, 2, 3, 4, 5]).partition(x => x % 2 === 0);
+    expect(even).toEqual([2, 4]);
+    expect(odd).toEqual([1, 3, 5]);
+  });
+
+  it('should narrow partition() results with a type guard', () => {
+    const [strings, numbers] = LazyIterator.from<string | number>(['a', 1, 'b', 2])
+      .partition((x): x is string => typeof x === 'string');
+    expect(strings.map(s => s.toUpperCase())).toEqual(['A', 'B']);
+    expect(numbers.map(n => n * 2)).toEqual([2, 4]);
+  });
+
+  it('should support toMap(), toSet() and toObject()', () => {
+    const entries = LazyIterator.from(['a', 'bb', 'a']).map(s => [s, s.length] as const);
+    const [forMap, forObject] = entries.tee(2);
+    expect(forMap.toMap()).toEqual(new Map([['a', 1], ['bb', 2]]));
+    expect(forObject.toObject()).toEqual({ a: 1, bb: 2 });
+    expect(LazyIterator.from([3, 1, 3, 2]).toSet()).toEqual(new Set([3, 1, 2]));
+    expect(() => LazyIterator.from([1 as any]).toMap()).toThrow(TypeError);
+  });
+
+  it('should fold collectors without buffering the pipeline', () => {
+    const events: string[] = [];
+    function* source() {
+      for (let i = 1; i <= 3; i++) { events.push(`pull ${i}`); yield i; }
+    }
+    LazyIterator.from(source()).groupBy(x => { events.push(`key ${x}`); return x % 2; });
+    expect(events).toEqual(['pull 1', 'key 1', 'pull 2', 'key 2', 'pull 3', 'key 3']);
+  });
+
+  it('should zip() inputs into tuples until the shortest is done', () => {
+    function* letters() { yield 'a'; yield 'b'; yield 'c'; }
+    const zipped = LazyIterator.zip([1, 2], letters(), new Set([true, false, true])).collect();
+    expect(zipped).toEqual([[1, 'a', true], [2, 'b', false]]);
+    expect(LazyIterator.zip().collect()).toEqual([]);
+  });
+
+  it('should zipLongest() inputs with a fill value', () => {
+    expect(LazyIterator.zipLongest(0, [1, 2, 3], [10]).collect()).toEqual([[1, 10], [2, 0], [3, 0]]);
+  });
+
+  it('should concat(), interleave() and roundRobin() inputs', () => {
+    expect(LazyIterator.concat([1, 2], [], [3]).collect()).toEqual([1, 2, 3]);
+    expect(LazyIterator.interleave([1, 2, 3], ['a', 'b']).collect()).toEqual([1, 'a', 2, 'b', 3]);
+    expect(LazyIterator.roundRobin([1, 2, 3], ['a'], [true, false]).collect()).toEqual([1, 'a', true, 2, false, 3]);
+  });
+
+  it('should open re-iterable inputs again for each combined pipeline', () => {
+    const combined = LazyIterator.concat([1, 2], [3]).map(x => x * 2);
+    expect(combined.filter(x => x > 2).collect()).toEqual([4, 6]);
+    expect(combined.collect()).toEqual([2, 4, 6]);
+  });
+
+  it('should close every open input when a combined pipeline stops early', () => {
+    const closed: string[] = [];
+    function* tracked(name: string) {
+      try { for (let i = 0; ; i++) yield i; } finally { closed.push(name); }
+    }
+    expect(LazyIterator.zip(tracked('a'), tracked('b')).take(2).collect()).toEqual([[0, 0], [1, 1]]);
+    expect(closed).toEqual(['a', 'b']);
+
+    closed.length = 0;
+    const it = LazyIterator.concat(tracked('c'), tracked('d'));
+    expect(it.next().value).toBe(0);
+    it.return();
+    expect(closed).toEqual(['c']);
+
+    closed.length = 0;
+    expect(LazyIterator.zip(tracked('e'), [1]).collect()).toEqual([[0, 1]]);
+    expect(closed).toEqual(['e']);
+  });
+
+  it('should reject inputs that are not iterable', () => {
+    expect(() => LazyIterator.zip([1], 5 as any)).toThrow();
+    expect(() => LazyIterator.concat(null as any)).toThrow();
+  });
+
+  it('should mergeSorted() sorted inputs stably', () => {
+    const byId = (a: { id: number }, b: { id: number }) => a.id - b.id;
+    const merged = LazyIterator.mergeSorted(byId, [{ id: 1, day: 1 }, { id: 4, day: 1 }], [{ id: 2, day: 2 }], [{ id: 1, day: 3 }, { id: 5, day: 3 }]);
+    expect(merged.map(r => `${r.id}/${r.day}`).collect()).toEqual(['1/1', '1/3', '2/2', '4/1', '5/3']);
+    expect(LazyIterator.mergeSorted((a: number, b: number) => a - b).collect()).toEqual([]);
+  });
+
+  it('should throw a SortOrderError and close the inputs when a mergeSorted() input is out of order', () => {
+    const closed: string[] = [];
+    function* tracked(name: string, values: number[]) {
+      try { yield* values; } finally { closed.push(name); }
+    }
+    const merged = LazyIterator.mergeSorted((a, b) => a - b, tracked('a', [1, 5, 6]), tracked('b', [2, 3, 1]));
+    expect(merged.take(3).collect()).toEqual([1, 2, 3]);
+    expect(() => LazyIterator.mergeSorted((a, b) => a - b, tracked('c', [1, 5, 6]), tracked('d', [2, 3, 1])).collect())
+      .toThrow(expect.objectContaining({ name: 'SortOrderError', input: 1, previous: 3, value: 1 }));
+    expect(closed.sort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should innerJoin(), leftJoin() and fullOuterJoin() sorted inputs', () => {
+    const users = [{ id: 1, name: 'ann' }, { id: 2, name: 'bob' }, { id: 4, name: 'cy' }];
+    const orders = [{ userId: 0, total: 5 }, { userId: 1, total: 10 }, { userId: 1, total: 20 }, { userId: 4, total: 7 }, { userId: 6, total: 1 }];
+    const options = { key: (u: { id: number }) => u.id, otherKey: (o: { userId: number }) => o.userId };
+    const show = ([u, o]: [{ name: string } | undefined, { total: number } | undefined]) => `${u?.name ?? '-'}:${o?.total ?? '-'}`;
+
+    expect(LazyIterator.from(users).innerJoin(orders, options).map(show).collect()).toEqual(['ann:10', 'ann:20', 'cy:7']);
+    expect(LazyIterator.from(users).leftJoin(orders, options).map(show).collect()).toEqual(['ann:10', 'ann:20', 'bob:-', 'cy:7']);
+    expect(LazyIterator.from(users).fullOuterJoin(orders, options).map(show).collect())
+      .toEqual(['-:5', 'ann:10', 'ann:20', 'bob:-', 'cy:7', '-:1']);
+  });
+
+  it('should pair every value of equal-key runs in a join', () => {
+    const joined = LazyIterator.from(['a1', 'a2', 'b1']).innerJoin(['a3', 'a4', 'c1'], { key: s => s[0] }).collect();
+    expect(joined).toEqual([['a1', 'a3'], ['a1', 'a4'], ['a2', 'a3'], ['a2', 'a4']]);
+  });
+
+  it('should throw a SortOrderError when a join input is out of order', () => {
+    expect(() => LazyIterator.from([1, 3, 2]).leftJoin([1, 2, 3], { key: x => x }).collect())
+      .toThrow(expect.objectContaining({ name: 'SortOrderError', input: 0 }));
+    expect(() => LazyIterator.from([1, 2, 3]).fullOuterJoin([2, 1], { key: x => x }).collect())
+      .toThrow(expect.objectContaining({ name: 'SortOrderError', input: 1 }));
+    expect(() => LazyIterator.from([1]).innerJoin([1], {} as any)).toThrow(TypeError);
+  });
+
+  it('should diffBy() two sorted datasets in one pass', () => {
+    const yesterday = [{ id: 1, name: 'ann' }, { id: 2, name: 'bob' }, { id: 4, name: 'cy' }];
+    const today = [{ id: 1, name: 'ann' }, { id: 3, name: 'dee' }, { id: 4, name: 'cyd' }];
+    const diff = LazyIterator.from(yesterday).diffBy(today, r => r.id).map(d => `${d.type}:${d.key}`).collect();
+    expect(diff).toEqual(['unchanged:1', 'removed:2', 'added:3', 'changed:4']);
+
+    const [changed] = LazyIterator.from(yesterday).diffBy(today, r => r.id).filter(d => d.type === 'changed').collect();
+    expect(changed).toEqual({ type: 'changed', key: 4, before: { id: 4, name: 'cy' }, after: { id: 4, name: 'cyd' } });
+  });
+
+  it('should diffBy() with a custom equals and stop pulling when closed early', () => {
+    let pulled = 0;
+    function* counted() { for (let i = 0; i < 1000; i++) { pulled++; yield i; } }
+    const diff = LazyIterator.from(counted()).diffBy([0, 1, 2], x => x, { equals: () => false }).take(2).collect();
+    expect(diff.map(d => d.type)).toEqual(['changed', 'changed']);
+    expect(pulled).toBeLessThan(5);
+  });
+
+  it('should diffBy() unsorted datasets by indexing the smaller one', () => {
+    const before = [{ id: 'c', v: 1 }, { id: 'a', v: 1 }, { id: 'b', v: 1 }];
+    const after = [{ id: 'b', v: 2 }, { id: 'a', v: 1 }];
+    const show = (d: { type: string, key: string }) => `${d.type}:${d.key}`;
+    expect(LazyIterator.from(before).diffBy(after, r => r.id, { sorted: false }).map(show).collect())
+      .toEqual(['removed:c', 'unchanged:a', 'changed:b']);
+    expect(LazyIterator.from(after).diffBy(before, r => r.id, { sorted: false }).map(show).collect())
+      .toEqual(['added:c', 'unchanged:a', 'changed:b']);
+  });
+
+  it('should throw a SortOrderError when a diffBy() input is not sorted', () => {
+    expect(() => LazyIterator.from([1, 2]).diffBy([2, 1], x => x).collect())
+      .toThrow(expect.objectContaining({ name: 'SortOrderError', input: 1 }));
+    expect(() => LazyIterator.from([1]).diffBy([1], 'id' as any)).toThrow(TypeError);
+  });
+
+  it('should drop a partial chunk() batch on return()', () => {
+    const it = LazyIterator.from([1, 2, 3]).chunk(2);
+    expect(it.next().value).toEqual([1, 2]);
+    it.return();
+    expect(it.next().done).toBe(true);
+  });
+
+  it('should return a new pipeline from each chained method', () => {
+    const base = LazyIterator.from([1, 2, 3, 4]).map(x => x * 10);
+    const a = base.filter(x => x > 20);
+    const b = base.map(x => x + 1);
+    expect(a === (base as unknown)).toBe(false);
+    expect(a.collect()).toEqual([30, 40]);
+    expect(b.collect()).toEqual([11, 21, 31, 41]);
+    expect(base.collect()).toEqual([10, 20, 30, 40]);
+  });
+
+  it('should reuse a pipeline as a template over a re-iterable source', () => {
+    const template = LazyIterator.from([1, 2, 3]).filter(x => x !== 2).scan((acc, x) => acc + x, 0);
+    expect(template.take(1).collect()).toEqual([1]);
+    expect(template.map(x => -x).collect()).toEqual([-1, -4]);
+    expect(template.collect()).toEqual([1, 4]);
+  });
+
+  it('should share a single-pass source between branches', () => {
+    const base = LazyIterator.from(genNumbers());
+    const evens = base.filter(x => x % 2 === 0);
+    const rest = base.map(x => x);
+    expect(evens.next().value).toBe(2);
+    expect(rest.collect()).toEqual([3, 4, 5]);
+  });
+
+  it('should close the source when return() is called', () => {
+    let closed = false;
+    function* source() {
+      try { yield 1; yield 2; yield 3; } finally { closed = true; }
+    }
+    const it = LazyIterator.from(source()).map(x => x * 2);
+    for (const x of it) {
+      if (x === 2) break;
+    }
+    expect(closed).toBe(true);
+    expect(it.next().done).toBe(true);
+  });
+
+  it('should close the source and inner iterators when take() is satisfied', () => {
+    const closed: string[] = [];
+    function* inner(x: number) {
+      try { yield x; yield x; } finally { closed.push(`inner ${x}`); }
+    }
+    function* source() {
+      try { yield 1; yield 2; } finally { closed.push('source'); }
+    }
+    const it = LazyIterator.from(source()).flatMap(inner).take(3);
+    expect(it.collect()).toEqual([1, 1, 2]);
+    expect(closed).toEqual(['inner 1', 'inner 2', 'source']);
+  });
+
+  it('should forward throw() to the source', () => {
+    const seen: unknown[] = [];
+    function* source() {
+      try { yield 1; yield 2; } catch (e) { seen.push(e); }
+    }
+    const it = LazyIterator.from(source());
+    it.next();
+    const err = new Error('stop');
+    expect(it.throw(err)).toEqual({ done: true, value: undefined });
+    expect(seen).toEqual([err]);
+  });
+
+  it('should close the source on dispose', () => {
+    let closed = false;
+    function* source() {
+      try { yield 1; yield 2; } finally { closed = true; }
+    }
+    const it = LazyIterator.from(source());
+    it.next();
+    it[Symbol.dispose]();
+    expect(closed).toBe(true);
+  });
+
+  it('should close the source when a stage throws during a terminal', () => {
+    let closed = 0;
+    function* source() {
+      try { yield* [1, 2, 'three', 4]; } finally { closed++; }
+    }
+    const checked = () => LazyIterator.from(source()).map(x => { if (typeof x !== 'number') throw new TypeError('not a number'); return x; });
+    expect(() => checked().collect()).toThrow('not a number');
+    expect(() => checked().reduce((acc, x) => acc + x, 0).execute()).toThrow('not a number');
+    expect(() => checked().toSet()).toThrow('not a number');
+    expect(() => checked().some(x => x > 10)).toThrow('not a number');
+    expect(closed).toBe(4);
   });
 
   it('should support tee()', () => {
@@ -95,30 +667,38 @@ describe('LazyIterator', () => {
     expect([...tees[1]]).toEqual([1, 2, 3, 4, 5]);
   });
 
+  it('should keep inspect() on tee() branches', () => {
+    const [fast, slow] = LazyIterator.from([1, 2, 3]).tee(2, { maxBuffer: 2 });
+    fast.next();
+    expect(fast.inspect()).toEqual({ bufferDepth: 1, maxBuffer: 2, policy: 'error', branches: [{ lag: 0, state: 'open' }, { lag: 1, state: 'open' }] });
+    slow.next();
+    expect(slow.inspect().bufferDepth).toBe(0);
+  });
+
   it('should support take() with generator', () => {
     const it = LazyIterator.from(genNumbers());
-    expect(it.take(3)).toEqual([1, 2, 3]);
-    expect(it.take(0)).toEqual([]);
+    expect(it.take(3).collect()).toEqual([1, 2, 3]);
+    expect(it.take(0).collect()).toEqual([]);
     expect(() => it.take(-1)).toThrow();
   });
 
   it('should support drop() with generator', () => {
     const [it1, it2] = LazyIterator.from(genNumbers()).tee(2);
-    expect(it1.drop(2)).toEqual([3, 4, 5]);
-    expect(it2.drop(0)).toEqual([1, 2, 3, 4, 5]);
+    expect(it1.drop(2).collect()).toEqual([3, 4, 5]);
+    expect(it2.drop(0).collect()).toEqual([1, 2, 3, 4, 5]);
     expect(() => it2.drop(-1)).toThrow();
   });
 
   it('should support takeWhile() with generator', () => {
     const it = LazyIterator.from(genNumbers());
-    expect(it.takeWhile((x) => x < 4)).toEqual([1, 2, 3]);
-    expect(it.takeWhile((x) => false)).toEqual([]);
+    expect(it.takeWhile((x) => x < 4).collect()).toEqual([1, 2, 3]);
+    expect(it.takeWhile((x) => false).collect()).toEqual([]);
   });
 
   it('should support dropWhile() with generator', () => {
     const it = LazyIterator.from(genNumbers());
-    expect(it.dropWhile((x) => x < 3)).toEqual([3, 4, 5]);
-    expect(it.dropWhile((x) => true)).toEqual([]);
+    expect(it.dropWhile((x) => x < 3).collect()).toEqual([3, 4, 5]);
+    expect(it.dropWhile((x) => true).collect()).toEqual([]);
   });
 
   it('should support tee() with generator', () => {
@@ -182,10 +762,10 @@ describe('LazyIterator', () => {
     const it = LazyIterator.from([]);
     expect(it.next().done).toBe(true);
     expect(it.collect()).toEqual([]);
-    expect(it.take(2)).toEqual([]);
-    expect(it.drop(2)).toEqual([]);
-    expect(it.takeWhile(() => true)).toEqual([]);
-    expect(it.dropWhile(() => true)).toEqual([]);
+    expect(it.take(2).collect()).toEqual([]);
+    expect(it.drop(2).collect()).toEqual([]);
+    expect(it.takeWhile(() => true).collect()).toEqual([]);
+    expect(it.dropWhile(() => true).collect()).toEqual([]);
   });
 
   it('should handle errors in map/filter', () => {
@@ -241,13 +821,13 @@ describe("Lazy Iterator",() => {
 
     console.log("Console in the middle");
 
-    it.filter(v => v.min > 0)
+    const filtered = it.filter(v => v.min > 0)
 
     console.log("Console After Filter");
 
-    it.forEach(v => console.log("Filtered Value: "+JSON.stringify(v)))
+    const observed = filtered.forEach(v => console.log("Filtered Value: "+JSON.stringify(v)))
 
-    const res = it.reduce((curr, acc) => ({
+    const res = observed.reduce((curr, acc) => ({
       min: Math.min(acc.min, curr.min),
       max: Math.max(acc.max, curr.min)
     }), { max: -Infinity, min: Infinity})
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { backoffDelay, resolveRetryOptions, withRetry } from '../src/retry';
+import { AbortError, RetryError } from '../src/errors';
+
+describe('retry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should grow delays exponentially up to maxMs', () => {
+    const options = resolveRetryOptions('test', { attempts: 6, baseMs: 100, maxMs: 500 });
+    expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(options, attempt))).toEqual([100, 200, 400, 500, 500]);
+  });
+
+  it('should use a fixed delay with fixed backoff', () => {
+    const options = resolveRetryOptions('test', { attempts: 3, backoff: 'fixed', baseMs: 250 });
+    expect([1, 2].map(attempt => backoffDelay(options, attempt))).toEqual([250, 250]);
+  });
+
+  it('should shorten delays by up to the jitter fraction', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(backoffDelay(resolveRetryOptions('test', { attempts: 2, baseMs: 100, jitter: true }), 1)).toBe(50);
+    expect(backoffDelay(resolveRetryOptions('test', { attempts: 2, baseMs: 100, jitter: 0.2 }), 1)).toBe(90);
+  });
+
+  it('should wait for the backoff between attempts', async () => {
+    vi.useFakeTimers();
+    const call = vi.fn()
+      .mockRejectedValueOnce(new Error('503'))
+      .mockRejectedValueOnce(new Error('503'))
+      .mockResolvedValue('ok');
+    const result = withRetry(call, resolveRetryOptions('test', { attempts: 3, baseMs: 100 }), new AbortController().signal);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(call).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('should reject with the attempt history once attempts run out', async () => {
+    vi.useFakeTimers();
+    const errors = [new Error('first'), new Error('second')];
+    let calls = 0;
+    const result = withRetry(() => Promise.reject(errors[calls++]), resolveRetryOptions('test', { attempts: 2, baseMs: 10 }), new AbortController().signal);
+    const settled = result.catch(e => e);
+    await vi.runAllTimersAsync();
+    const error = await settled;
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error.attempts).toBe(2);
+    expect(error.cause).toBe(errors[1]);
+    expect(error.history).toEqual([
+      { attempt: 1, error: errors[0], retryDelay: 10 },
+      { attempt: 2, error: errors[1] }
+    ]);
+    expect(error.message).toBe('Failed after 2 attempts: second');
+  });
+
+  it('should stop retrying errors that retryIf declines', async () => {
+    const call = vi.fn().mockRejectedValue(new Error('404'));
+    const retryIf = vi.fn((error: unknown) => (error as Error).message !== '404');
+    const error = await withRetry(call, resolveRetryOptions('test', { attempts: 5, retryIf }), new AbortController().signal).catch(e => e);
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(retryIf).toHaveBeenCalledWith(expect.any(Error), 1);
+    expect(error.history).toHaveLength(1);
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const result = withRetry(() => Promise.reject(new Error('503')), resolveRetryOptions('test', { attempts: 3, baseMs: 1000 }), controller.signal);
+    const settled = result.catch(e => e);
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    expect(await settled).toBeInstanceOf(AbortError);
+  });
+
+  it('should reject with an AbortError when the signal aborts during a call', async () => {
+    const controller = new AbortController();
+    const call = vi.fn(() => new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error('socket closed')));
+    }));
+    const result = withRetry(call, resolveRetryOptions('test', { attempts: 3, baseMs: 0 }), controller.signal).catch(e => e);
+    controller.abort('shutting down');
+    const error = await result;
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.cause).toBe('shutting down');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => resolveRetryOptions('mapAsync', { attempts: 0 })).toThrow('retry.attempts');
+    expect(() => resolveRetryOptions('mapAsync', { attempts: 2, jitter: 2 })).toThrow('retry.jitter');
+    // @ts-expect-error
+    expect(() => resolveRetryOptions('mapAsync', { attempts: 2, backoff: 'linear' })).toThrow('retry.backoff');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { RingBuffer } from '../src/ring-buffer';
+
+describe('RingBuffer', () => {
+  it('should push and shift in FIFO order', () => {
+    const buffer = new RingBuffer<number>(2);
+    buffer.push(1);
+    buffer.push(2);
+    buffer.push(3);
+    expect(buffer.length).toBe(3);
+    expect(buffer.shift()).toBe(1);
+    expect(buffer.shift()).toBe(2);
+    expect(buffer.shift()).toBe(3);
+    expect(buffer.shift()).toBeUndefined();
+    expect(buffer.length).toBe(0);
+  });
+
+  it('should keep order when growing after wrapping around', () => {
+    const buffer = new RingBuffer<number>(4);
+    for (let i = 0; i < 3; i++) buffer.push(i);
+    buffer.shift();
+    buffer.shift();
+    for (let i = 3; i < 10; i++) buffer.push(i);
+    const out: number[] = [];
+    while (buffer.length > 0) out.push(buffer.shift()!);
+    expect(out).toEqual([2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('should get and set values by offset from the front', () => {
+    const buffer = new RingBuffer<string>();
+    buffer.push('a');
+    buffer.push('b');
+    buffer.shift();
+    buffer.push('c');
+    expect(buffer.get(0)).toBe('b');
+    expect(buffer.get(1)).toBe('c');
+    buffer.set(1, 'd');
+    expect(buffer.get(1)).toBe('d');
+  });
+
+  it('should empty the buffer on clear', () => {
+    const buffer = new RingBuffer<number>();
+    buffer.push(1);
+    buffer.clear();
+    expect(buffer.length).toBe(0);
+    buffer.push(2);
+    expect(buffer.shift()).toBe(2);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { HyperLogLog, SpaceSaving, TDigest } from '../src/sketches';
+
+describe('HyperLogLog', () => {
+  it('should count small cardinalities nearly exactly and large ones within a few standard errors', () => {
+    const small = new HyperLogLog();
+    for (const value of [1, '1', 2, 2, { id: 1 }, { id: 1 }, null, undefined]) small.add(value);
+    expect(small.count()).toBe(6);
+
+    const large = new HyperLogLog({ precision: 12 });
+    for (let i = 0; i < 50_000; i++) large.add(`user-${i % 40_000}`);
+    expect(Math.abs(large.count() - 40_000) / 40_000).toBeLessThan(3 * 1.04 / Math.sqrt(4096));
+  });
+
+  it('should merge and round-trip through JSON', () => {
+    const a = new HyperLogLog({ precision: 10 });
+    const b = new HyperLogLog({ precision: 10 });
+    for (let i = 0; i < 300; i++) a.add(i);
+    for (let i = 200; i < 500; i++) b.add(i);
+    const restored = HyperLogLog.fromJSON(JSON.parse(JSON.stringify(b)));
+    expect(restored.count()).toBe(b.count());
+    expect(Math.abs(a.merge(restored).count() - 500)).toBeLessThan(25);
+    expect(() => a.merge(new HyperLogLog({ precision: 11 }))).toThrow('cannot merge precision 11 into precision 10');
+    expect(() => new HyperLogLog({ precision: 3 })).toThrow('precision must be an integer from 4 to 18');
+    // @ts-expect-error
+    expect(() => HyperLogLog.fromJSON({ type: 'tDigest' })).toThrow(TypeError);
+  });
+});
+
+describe('TDigest', () => {
+  it('should estimate quantiles closely, with exact extremes', () => {
+    const digest = new TDigest();
+    for (let i = 0; i < 10_000; i++) digest.add((i * 7919) % 10_000);
+    expect(digest.count).toBe(10_000);
+    expect(digest.quantile(0)).toBe(0);
+    expect(digest.quantile(1)).toBe(9999);
+    expect(Math.abs(digest.quantile(0.5) - 5000)).toBeLessThan(50);
+    expect(Math.abs(digest.quantile(0.99) - 9900)).toBeLessThan(10);
+    expect(new TDigest().quantile(0.5)).toBeNaN();
+    expect(() => digest.quantile(1.5)).toThrow('q must be a number from 0 to 1');
+    expect(() => digest.add(NaN)).toThrow(TypeError);
+  });
+
+  it('should merge digests from several workers and round-trip through JSON', () => {
+    const workers = [0, 1, 2].map(() => new TDigest({ compression: 50 }));
+    for (let i = 0; i < 3000; i++) workers[i % 3].add(i);
+    const serialized = workers.map(digest => JSON.stringify(digest));
+    const combined = serialized.map(json => TDigest.fromJSON(JSON.parse(json))).reduce((acc, digest) => acc.merge(digest));
+    expect(combined.count).toBe(3000);
+    expect(combined.quantile(0)).toBe(0);
+    expect(combined.quantile(1)).toBe(2999);
+    expect(Math.abs(combined.quantile(0.9) - 2700)).toBeLessThan(30);
+    expect(TDigest.fromJSON(JSON.parse(JSON.stringify(new TDigest()))).count).toBe(0);
+  });
+});
+
+describe('SpaceSaving', () => {
+  it('should find the keys above total / capacity with bounded overcounts', () => {
+    const sketch = new SpaceSaving<string>({ capacity: 20 });
+    for (let i = 0; i < 1000; i++) sketch.add(i % 2 === 0 ? 'hot' : i % 5 === 0 ? 'warm' : `cold-${i}`);
+    const [first, second] = sketch.top(2);
+    expect(first.key).toBe('hot');
+    expect(second.key).toBe('warm');
+    for (const { count, error } of sketch.top()) {
+      expect(error).toBeLessThanOrEqual(sketch.count / sketch.capacity);
+      expect(count).toBeGreaterThanOrEqual(error);
+    }
+    expect(first.count - first.error).toBeLessThanOrEqual(500);
+    expect(first.count).toBeGreaterThanOrEqual(500);
+  });
+
+  it('should merge sketches and round-trip through JSON', () => {
+    const a = new SpaceSaving<string>({ capacity: 3 });
+    const b = new SpaceSaving<string>({ capacity: 3 });
+    for (const key of ['x', 'x', 'y', 'z']) a.add(key);
+    for (const key of ['x', 'y', 'y', 'w']) b.add(key);
+    const merged = a.merge(SpaceSaving.fromJSON(JSON.parse(JSON.stringify(b))));
+    expect(merged.count).toBe(8);
+    expect(merged.top(2).map(hitter => [hitter.key, hitter.count])).toEqual([['x', 3], ['y', 3]]);
+    expect(merged.top()).toHaveLength(3);
+    expect(() => new SpaceSaving({ capacity: 0 })).toThrow('capacity must be a positive integer');
+  });
+
+  it('should keep its count bounds over a skewed stream', () => {
+    const sketch = new SpaceSaving<number>({ capacity: 50 });
+    const exact = new Map<number, number>();
+    let seed = 1;
+    for (let i = 0; i < 20_000; i++) {
+      seed = (seed * 48271) % 2147483647;
+      const key = Math.floor(1000 * (seed / 2147483647) ** 3);
+      sketch.add(key);
+      exact.set(key, (exact.get(key) ?? 0) + 1);
+    }
+    const hitters = sketch.top();
+    expect(hitters).toHaveLength(50);
+    expect(hitters.reduce((total, { count }) => total + count, 0)).toBe(20_000);
+    for (const { key, count, error } of hitters) {
+      expect(count - error).toBeLessThanOrEqual(exact.get(key)!);
+      expect(count).toBeGreaterThanOrEqual(exact.get(key)!);
+    }
+  });
+});
@@ -0,0 +1,41 @@
+import { bench, describe } from 'vitest';
+import '../src/index.ts';
+
+const ELEMENTS = 10_000;
+
+function* source() {
+  for (let i = 0; i < ELEMENTS; i++) yield i;
+}
+
+/**
+ * Reads every branch in lock step, so the buffer stays shallow and the cost is dominated by per-element bookkeeping.
+ */
+function readInLockStep(branchCount: number) {
+  const branches = Array.tee(source(), branchCount);
+  for (let i = 0; i < ELEMENTS; i++) {
+    for (const branch of branches) branch.next();
+  }
+}
+
+/**
+ * Reads one branch to the end before the others, so the whole source is buffered while they lag behind.
+ */
+function readOneAhead(branchCount: number) {
+  const [leader, ...followers] = Array.tee(source(), branchCount);
+  for (const _ of leader);
+  for (const follower of followers) {
+    for (const _ of follower);
+  }
+}
+
+describe('tee, branches read in lock step', () => {
+  for (const branchCount of [2, 100, 1_000]) {
+    bench(`${branchCount} branches x ${ELEMENTS} elements`, () => readInLockStep(branchCount), { iterations: 3 });
+  }
+});
+
+describe('tee, one branch far ahead of the rest', () => {
+  for (const branchCount of [2, 100, 1_000]) {
+    bench(`${branchCount} branches x ${ELEMENTS} elements`, () => readOneAhead(branchCount), { iterations: 3 });
+  }
+});